@@ -0,0 +1,295 @@
+import { BOT, GUILDS, LOG, isGlobalAdmin } from './bot.ts';
+import { MAINTENANCE } from './game/maintenance.ts';
+import { ROUTER } from './game/router.ts';
+import { Phase } from './game/session.ts';
+import { DATABASE } from './game/utils/database.ts';
+import { MUTES } from './game/utils/mutes.ts';
+import { ApiMessageType } from './lib/api.ts';
+import type { TextMessageEvent } from './lib/events.ts';
+import { createActionCard, drainingActionCard } from './templates/create.ts';
+import { introCard } from './templates/intro.ts';
+import { textCard } from './templates/text.ts';
+
+/** 计划维护最长可以等待的时间（分钟） */
+const MAX_MAINTENANCE_MINUTES = 24 * 60;
+
+const PHASE_NAMES: Record<Phase, string> = {
+  [Phase.INITIALIZING]: '初始化',
+  [Phase.WAITING_FOR_STORYTELLER]: '等待说书人',
+  [Phase.PREPARING]: '准备阶段',
+  [Phase.FINISH_GOOD]: '善良阵营胜利',
+  [Phase.FINISH_BAD]: '邪恶阵营胜利',
+  [Phase.NIGHT]: '夜晚',
+  [Phase.COTTAGE]: '小屋',
+  [Phase.DAY]: '广场集会',
+  [Phase.ROAMING]: '自由活动',
+};
+
+/**
+ * 用户是否为消息所在服务器的管理员
+ *
+ * 服务器所有者、全局管理员与拥有管理员身份组的用户都是管理员
+ */
+export const isAdmin = (event: TextMessageEvent) => {
+  const guild = GUILDS.get(event.extra.guild_id);
+  if (!guild) return false;
+
+  return (
+    guild.admins.includes(event.author_id) || event.extra.author.roles.includes(guild.adminRoleId)
+  );
+};
+
+/** 只有发送指令的管理员可以看到回复 */
+const reply = (event: TextMessageEvent, content: string) =>
+  BOT.api.messageCreate({
+    target_id: event.target_id,
+    type: ApiMessageType.CARD,
+    content: JSON.stringify(textCard(content)),
+    temp_target_id: event.author_id,
+  });
+
+/** 从指令参数中解析用户ID，支持直接 @ 用户 */
+const parseUserId = (arg: string) => arg.replace(/^\(met\)(\d+)\(met\)$/, '$1');
+
+type AdminCommand = (event: TextMessageEvent, args: string[]) => Promise<void>;
+
+const COMMANDS: Record<string, AdminCommand> = {
+  /** 发送说明与创建小镇按钮 */
+  '/setup': async (event) => {
+    // 发送介绍卡片
+    await BOT.api.messageCreate({
+      target_id: event.target_id,
+      type: ApiMessageType.CARD,
+      content: JSON.stringify(introCard),
+    });
+
+    // 发送操作卡片，记录下来以便维护时更新
+    const message = await BOT.api.messageCreate({
+      target_id: event.target_id,
+      type: ApiMessageType.CARD,
+      content: JSON.stringify(
+        MAINTENANCE.isDraining ? drainingActionCard(MAINTENANCE.deadline.value) : createActionCard,
+      ),
+    });
+    DATABASE.addActionCard(message.msg_id);
+  },
+
+  /** 列出服务器中的小镇 */
+  '/sessions': async (event) => {
+    const sessions = ROUTER.listSessions(event.extra.guild_id);
+    if (sessions.length === 0) {
+      await reply(event, '(font)当前没有正在进行的小镇(font)[tips]');
+      return;
+    }
+
+    const lines = sessions.map((session, index) => {
+      const broken = session.isBroken ? ' (font)故障(font)[danger]' : '';
+      return `${index + 1}. **${session.renderer.name.value}** 说书人 (met)${session.storytellerId}(met) · ${session.playerCount} 名玩家 · ${PHASE_NAMES[session.currentPhase]}${broken}`;
+    });
+    await reply(event, `**🏘️ 小镇列表** (${sessions.length})\n${lines.join('\n')}`);
+  },
+
+  /** 强制拆除小镇，参数为说书人或小镇名称 */
+  '/close': async (event, args) => {
+    const target = parseUserId(args.join(' '));
+    if (!target) {
+      await reply(event, '请指定说书人或小镇名称：`/close @说书人`');
+      return;
+    }
+
+    const session = ROUTER.listSessions(event.extra.guild_id).find(
+      (session) => session.storytellerId === target || session.renderer.name.value === target,
+    );
+    if (!session) {
+      await reply(event, `(font)找不到小镇：${target}(font)[danger]`);
+      return;
+    }
+
+    const name = session.renderer.name.value;
+    ROUTER.removeSession(session);
+    LOG(`🛑 管理员 (met)${event.author_id}(met) 拆除了小镇 ${name}`);
+    await reply(event, `已拆除小镇 **${name}**`);
+  },
+
+  /** 向服务器中所有小镇的城镇广场发送通知，`all` 发送到所有服务器 */
+  '/broadcast': async (event, args) => {
+    const global = args[0] === 'all';
+    if (global && !isGlobalAdmin(event.author_id)) {
+      await reply(event, '(font)只有配置的全局管理员可以向所有服务器发送通知(font)[danger]');
+      return;
+    }
+
+    // 保留通知内容中的换行
+    const content = event.content
+      .trim()
+      .replace(global ? /^\/broadcast\s+all\s*/ : /^\/broadcast\s*/, '');
+    if (!content) {
+      await reply(
+        event,
+        '请填写通知内容：`/broadcast 通知内容`，或使用 `/broadcast all 通知内容` 发送到所有服务器',
+      );
+      return;
+    }
+
+    const sessions = global ? ROUTER.listSessions() : ROUTER.listSessions(event.extra.guild_id);
+    for (const session of sessions) {
+      session.renderer.sendMessageToTownsquare(
+        ApiMessageType.CARD,
+        JSON.stringify(textCard(`**📢 管理员通知**\n${content}`)),
+      );
+    }
+    await reply(event, `已向 ${sessions.length} 个小镇发送通知`);
+  },
+
+  /** 暂停或恢复创建新小镇，影响所有服务器 */
+  '/drain': async (event, args) => {
+    if (!isGlobalAdmin(event.author_id)) {
+      await reply(event, '(font)只有配置的全局管理员可以暂停创建小镇(font)[danger]');
+      return;
+    }
+
+    const mode = args[0];
+    if (mode !== undefined && mode !== 'on' && mode !== 'off') {
+      await reply(event, '用法：`/drain on` 暂停创建小镇，`/drain off` 恢复创建小镇');
+      return;
+    }
+
+    if (MAINTENANCE.deadline.value) {
+      await reply(event, '已经计划了维护，请使用 `/maintenance cancel` 取消维护');
+      return;
+    }
+
+    const draining = mode ? mode === 'on' : !MAINTENANCE.isDraining;
+    MAINTENANCE.setDraining(draining);
+    const count = ROUTER.listSessions().length;
+    LOG(draining ? '🚧 已暂停创建新小镇' : '✅ 已恢复创建新小镇');
+    await reply(
+      event,
+      draining ? `🚧 已暂停创建新小镇，当前还有 ${count} 个小镇` : '✅ 已恢复创建新小镇',
+    );
+  },
+
+  /** 计划重启维护，等待所有小镇结束游戏或到达维护时间后关闭机器人 */
+  '/maintenance': async (event, args) => {
+    if (!isGlobalAdmin(event.author_id)) {
+      await reply(event, '(font)只有配置的全局管理员可以计划维护(font)[danger]');
+      return;
+    }
+
+    const arg = args[0];
+    if (arg === 'cancel') {
+      if (!MAINTENANCE.deadline.value) {
+        await reply(event, '(font)当前没有计划的维护(font)[tips]');
+        return;
+      }
+
+      MAINTENANCE.cancel();
+      LOG(`✅ 管理员 (met)${event.author_id}(met) 取消了维护`);
+      await reply(event, '✅ 已取消维护，恢复创建新小镇');
+      return;
+    }
+
+    if (arg === undefined) {
+      const deadline = MAINTENANCE.deadline.value;
+      await reply(
+        event,
+        deadline
+          ? `🚧 机器人将在 ${Math.ceil((deadline - Date.now()) / 60000)} 分钟内重启维护，还有 ${ROUTER.listSessions().filter((session) => !session.isPreparing()).length} 个小镇正在游戏中`
+          : '用法：`/maintenance 分钟` 计划在指定分钟后重启维护，`/maintenance cancel` 取消维护',
+      );
+      return;
+    }
+
+    const minutes = Number(arg);
+    if (!Number.isInteger(minutes) || minutes <= 0 || minutes > MAX_MAINTENANCE_MINUTES) {
+      await reply(event, `维护时间必须在 1 - ${MAX_MAINTENANCE_MINUTES} 分钟之间`);
+      return;
+    }
+
+    MAINTENANCE.schedule(Date.now() + minutes * 60000);
+    LOG(`🚧 管理员 (met)${event.author_id}(met) 计划在 ${minutes} 分钟后重启维护`);
+    await reply(
+      event,
+      `🚧 已计划在 ${minutes} 分钟后重启维护，所有小镇结束游戏后会提前重启
+(font)维护期间暂停创建新小镇(font)[tips]`,
+    );
+  },
+
+  /** 列出服务器中被机器人禁言的用户 */
+  '/mutes': async (event) => {
+    const mutes = MUTES.list().filter((mute) => mute.guildId === event.extra.guild_id);
+    if (mutes.length === 0) {
+      await reply(event, '(font)当前没有被禁言的用户(font)[tips]');
+      return;
+    }
+
+    const lines = mutes.map(({ userId }) => {
+      const session = ROUTER.getSessionByUserId(userId);
+      return `(met)${userId}(met) ${session ? `· ${session.renderer.name.value}` : '(font)不在任何小镇中(font)[warning]'}`;
+    });
+    await reply(event, `**🔇 禁言列表** (${mutes.length})\n${lines.join('\n')}`);
+  },
+
+  /** 解除用户禁言，`all` 解除所有不在小镇中的用户 */
+  '/unmute': async (event, args) => {
+    const guildId = event.extra.guild_id;
+    const target = parseUserId(args[0] ?? '');
+    if (!target) {
+      await reply(
+        event,
+        '请指定用户：`/unmute @用户`，或使用 `/unmute all` 解除所有不在小镇中的用户',
+      );
+      return;
+    }
+
+    if (target === 'all') {
+      const stuck = MUTES.list().filter(
+        (mute) => mute.guildId === guildId && !ROUTER.getSessionByUserId(mute.userId),
+      );
+      await Promise.allSettled(stuck.map((mute) => MUTES.release(mute.userId, guildId)));
+      await reply(event, `已解除 ${stuck.length} 名用户的禁言`);
+      return;
+    }
+
+    await MUTES.release(target, guildId);
+    const session = ROUTER.getSessionByUserId(target);
+    await reply(
+      event,
+      `已解除 (met)${target}(met) 的禁言${session ? `\n(font)用户仍在小镇 ${session.renderer.name.value} 中，可能会被重新禁言(font)[warning]` : ''}`,
+    );
+  },
+
+  /** 列出所有管理指令 */
+  '/help': async (event) => {
+    await reply(
+      event,
+      [
+        '**🛠️ 管理指令**',
+        '`/setup` 发送说明与创建小镇按钮',
+        '`/sessions` 列出服务器中的小镇',
+        '`/close @说书人` 强制拆除小镇，也可以填写小镇名称',
+        '`/broadcast 内容` 向服务器中所有小镇发送通知，`/broadcast all 内容` 发送到所有服务器（全局管理员）',
+        '`/drain on|off` 暂停或恢复创建新小镇（全局管理员）',
+        '`/maintenance 分钟|cancel` 计划或取消重启维护（全局管理员）',
+        '`/mutes` 列出被机器人禁言的用户',
+        '`/unmute @用户|all` 解除禁言',
+      ].join('\n'),
+    );
+  },
+};
+
+/**
+ * 处理管理指令
+ */
+export const processAdminCommand = async (event: TextMessageEvent) => {
+  if (!event.content.startsWith('/')) return;
+
+  const [name, ...args] = event.content.trim().split(/\s+/);
+  const command = name ? COMMANDS[name] : undefined;
+  if (!command || !isAdmin(event)) return;
+
+  // 删除指令消息
+  await BOT.api.messageDelete({ msg_id: event.msg_id });
+
+  await command(event, args);
+};
@@ -2,8 +2,8 @@ import { KookClient, type KookClientConfig } from './lib/kook.ts';
 import { config as dotenv } from 'dotenv';
 import { storytellerTwig } from './templates/storyteller.ts';
 import { townsqareTwig } from './templates/townsquare.ts';
-import type { GameConfig } from './types.ts';
-import { Permission } from './lib/api.ts';
+import type { GameConfig, GuildConfig } from './types.ts';
+import { Permission, type GuildRole } from './lib/api.ts';
 import { playersTwig } from './templates/players.ts';
 import { ASSETS } from './lib/assets.ts';
 
@@ -14,12 +14,27 @@ if (!process.env.KOOK_TOKEN) {
   process.exit(1);
 }
 
-if (!process.env.GUILD_ID) {
-  console.log('KOOK 频道 ID 未设置');
-  process.exit(1);
-}
+/** 限定服务的服务器，不设置时服务机器人加入的所有服务器 */
+const allowedGuilds = (process.env.GUILD_ID ?? '')
+  .split(',')
+  .map((id) => id.trim())
+  .filter((id) => id);
+
+/** 全局管理员，在所有服务器中都可以使用管理指令 */
+const globalAdmins = (process.env.ADMIN_ID ?? '')
+  .split(',')
+  .map((id) => id.trim())
+  .filter((id) => id);
+
+/** 管理员身份组名称，拥有该身份组的用户可以在所在服务器使用管理指令 */
+const adminRoleName = process.env.ADMIN_ROLE || '钟小楼管理员';
 
-const guild_id = process.env.GUILD_ID;
+/**
+ * 是否为全局管理员
+ *
+ * 只有配置的全局管理员可以使用影响所有服务器的指令
+ */
+export const isGlobalAdmin = (userId: string) => globalAdmins.includes(userId);
 
 const config: KookClientConfig = {
   token: process.env.KOOK_TOKEN,
@@ -49,54 +64,23 @@ export const LOG = async (msg: string) => {
   }
 };
 
-// 初始化流程（配置身份组和频道分组）
-const initialize = async () => {
-  // 上传 Assets 文件夹
-  const assets = await ASSETS.uploadAllAssets();
-
-  console.log(`🔄 已初始化素材`);
-
-  // 检查是否存在模版
-  const templateList = await bot.api.templateList();
-  const templateMap = new Map(templateList.items.map((template) => [template.title, template]));
-
-  const checkOrCreateTwig = async (name: string, content: () => Promise<string>) => {
-    const template = templateMap.get(name);
-    const text = await content();
-
-    if (template) {
-      if (template.content === text) {
-        return template.id;
-      }
-
-      await bot.api.templateUpdate({
-        id: template.id,
-        content: await content(),
-      });
-
-      console.log(`🔄 已更新模版: ${name}`);
-      return template.id;
-    }
+/** 已初始化的服务器配置 */
+export const GUILDS = new Map<string, GuildConfig>();
 
-    const newTemplate = await bot.api.templateCreate({
-      title: name,
-      content: await content(),
-      type: 0,
-      msgtype: 2,
-    });
+/**
+ * 旧版本快照中没有服务器ID，使用第一个限定的服务器
+ */
+export const DEFAULT_GUILD_ID = allowedGuilds[0];
 
-    console.log(`🔄 已创建模版: ${name}`);
-    return newTemplate.model.id;
-  };
+/**
+ * 初始化服务器（配置频道分组）
+ * @returns 服务器不在服务范围内时返回 null
+ */
+export const initializeGuild = async (guild_id: string): Promise<GuildConfig | null> => {
+  if (allowedGuilds.length > 0 && !allowedGuilds.includes(guild_id)) return null;
 
-  // 处理模版ID
-  const templates = {
-    storyteller: await checkOrCreateTwig('storyteller', storytellerTwig),
-    townsquare: await checkOrCreateTwig('townsquare', townsqareTwig),
-    players: await checkOrCreateTwig('players', playersTwig),
-  };
-
-  console.log(`🔄 已初始化消息模版`);
+  const existing = GUILDS.get(guild_id);
+  if (existing) return existing;
 
   const channels = await bot.api.channelList({ guild_id });
 
@@ -120,8 +104,7 @@ const initialize = async () => {
   }
 
   if (!gameCategory) {
-    console.error('❌ 鸦木布拉夫分组初始化失败...');
-    process.exit(1);
+    throw new Error('鸦木布拉夫分组初始化失败');
   }
 
   // 检查鸦木布拉夫分组是否有禁止查看权限，若没有则禁止
@@ -151,7 +134,7 @@ const initialize = async () => {
     });
   }
 
-  console.log(`🔄 已初始化鸦木布拉夫分组: ${gameCategory.id}`);
+  console.log(`🔄 [${guild_id}] 已初始化鸦木布拉夫分组: ${gameCategory.id}`);
 
   // 检查是否存在"小屋"分组，没有的话创建一个
   let cottageCategory;
@@ -173,8 +156,7 @@ const initialize = async () => {
   }
 
   if (!cottageCategory) {
-    console.error('❌ 小屋分组初始化失败...');
-    process.exit(1);
+    throw new Error('小屋分组初始化失败');
   }
 
   // 检查小屋分组是否有禁止查看权限，若没有则禁止
@@ -200,7 +182,7 @@ const initialize = async () => {
     });
   }
 
-  console.log(`🔄 已初始化小屋分组: ${cottageCategory.id}`);
+  console.log(`🔄 [${guild_id}] 已初始化小屋分组: ${cottageCategory.id}`);
 
   // 检查是否存在"游戏房间"分组，没有的话创建一个
   let roomCategory;
@@ -222,8 +204,7 @@ const initialize = async () => {
   }
 
   if (!roomCategory) {
-    console.error('❌ 游戏房间分组初始化失败...');
-    process.exit(1);
+    throw new Error('游戏房间分组初始化失败');
   }
 
   // 检查游戏房间是否有禁止语音连接权限，若没有则禁止
@@ -246,15 +227,109 @@ const initialize = async () => {
     });
   }
 
-  console.log(`🔄 已初始化游戏房间分组: ${roomCategory.id}`);
+  console.log(`🔄 [${guild_id}] 已初始化游戏房间分组: ${roomCategory.id}`);
+
+  // 检查是否存在管理员身份组，查找完所有分页后仍没有的话创建一个
+  let adminRole: GuildRole | undefined;
+  let page = 1;
+  let pageTotal = 1;
+  do {
+    const roles = await bot.api.roleList({ guild_id, page, page_size: 100 });
+    adminRole = roles.items.find((role) => role.name === adminRoleName);
+    pageTotal = roles.meta.page_total;
+    page++;
+  } while (!adminRole && page <= pageTotal);
+
+  if (!adminRole) {
+    adminRole = await bot.api.roleCreate({ guild_id, name: adminRoleName });
+  }
 
-  LOG('✅ 机器人已上线');
+  console.log(`🔄 [${guild_id}] 已初始化管理员身份组: ${adminRole.role_id}`);
 
-  return {
+  // 服务器所有者、全局管理员与管理员身份组可以使用管理指令
+  const guild = await bot.api.guildView(guild_id);
+
+  const config = {
     guildId: guild_id,
     roomCategoryId: roomCategory.id,
     gameCategoryId: gameCategory.id,
     cottageCategoryId: cottageCategory.id,
+    admins: [...new Set([guild.master_id, ...globalAdmins])],
+    adminRoleId: adminRole.role_id,
+  } satisfies GuildConfig;
+
+  GUILDS.set(guild_id, config);
+  return config;
+};
+
+// 初始化流程（上传素材、配置模版与所有服务器）
+const initialize = async () => {
+  // 上传 Assets 文件夹
+  const assets = await ASSETS.uploadAllAssets();
+
+  console.log(`🔄 已初始化素材`);
+
+  // 检查是否存在模版
+  const templateList = await bot.api.templateList();
+  const templateMap = new Map(templateList.items.map((template) => [template.title, template]));
+
+  const checkOrCreateTwig = async (name: string, content: () => Promise<string>) => {
+    const template = templateMap.get(name);
+    const text = await content();
+
+    if (template) {
+      if (template.content === text) {
+        return template.id;
+      }
+
+      await bot.api.templateUpdate({
+        id: template.id,
+        content: await content(),
+      });
+
+      console.log(`🔄 已更新模版: ${name}`);
+      return template.id;
+    }
+
+    const newTemplate = await bot.api.templateCreate({
+      title: name,
+      content: await content(),
+      type: 0,
+      msgtype: 2,
+    });
+
+    console.log(`🔄 已创建模版: ${name}`);
+    return newTemplate.model.id;
+  };
+
+  // 处理模版ID
+  const templates = {
+    storyteller: await checkOrCreateTwig('storyteller', storytellerTwig),
+    townsquare: await checkOrCreateTwig('townsquare', townsqareTwig),
+    players: await checkOrCreateTwig('players', playersTwig),
+  };
+
+  console.log(`🔄 已初始化消息模版`);
+
+  // 初始化机器人已加入的所有服务器
+  let page = 1;
+  let pageTotal = 1;
+  do {
+    const guilds = await bot.api.guildList({ page, page_size: 100 });
+    for (const guild of guilds.items) {
+      try {
+        await initializeGuild(guild.id);
+      } catch (error) {
+        console.error(`💥 服务器初始化失败: ${guild.id}`, error);
+      }
+    }
+    pageTotal = guilds.meta.page_total;
+    page++;
+  } while (page <= pageTotal);
+
+  LOG(`✅ 机器人已上线，正在服务 ${GUILDS.size} 个服务器`);
+
+  return {
     templates,
     assets,
   } satisfies GameConfig;
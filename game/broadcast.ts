@@ -0,0 +1,94 @@
+import type { Alignment, GameState, Phase, PlayerStatus } from './session';
+
+/** 最多保留的托梦记录数量 */
+export const MAX_BROADCAST_PRIVATES = 10;
+
+/** 旁观者看到的魔典画面 */
+export interface SpectatorView {
+  phase: Phase;
+
+  /** 当前是第几天 */
+  day: number;
+
+  players: {
+    id: string;
+    status: PlayerStatus;
+
+    /** 角色名称 */
+    character?: string;
+    alignment?: Alignment;
+    reminders: string[];
+  }[];
+
+  /** 最近的托梦 */
+  privates: { to: string; modules: any[] }[];
+}
+
+/**
+ * 旁观者魔典直播
+ *
+ * 魔典画面会延迟一段时间后才显示给旁观者，防止旁观者将信息泄露给玩家
+ */
+export class SpectatorBroadcast {
+  private frames: { time: number; view: SpectatorView }[] = [];
+  private timer?: NodeJS.Timeout;
+  private last = '';
+
+  constructor(private readonly state: Pick<GameState, 'spectatorView' | 'spectatorDelay'>) {}
+
+  /**
+   * 推送一帧画面，与上一帧相同时忽略
+   */
+  push(view: SpectatorView) {
+    const serialized = JSON.stringify(view);
+    if (serialized === this.last) return;
+    this.last = serialized;
+
+    this.frames.push({ time: Date.now() + this.state.spectatorDelay.value * 1000, view });
+    this.schedule();
+  }
+
+  /**
+   * 停止直播，不改变已经显示的画面
+   */
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * 清除所有画面
+   */
+  clear() {
+    this.stop();
+    this.frames = [];
+    this.last = '';
+    if (this.state.spectatorView.value) {
+      this.state.spectatorView.set(null);
+    }
+  }
+
+  private schedule() {
+    if (this.timer) return;
+
+    const next = this.frames[0];
+    if (!next) return;
+
+    this.timer = setTimeout(
+      () => {
+        this.timer = undefined;
+
+        // 只显示已经到时间的最新一帧
+        const now = Date.now();
+        let view: SpectatorView | undefined;
+        while (this.frames[0] && this.frames[0].time <= now) {
+          view = this.frames.shift()!.view;
+        }
+        if (view) this.state.spectatorView.set(view);
+
+        this.schedule();
+      },
+      Math.max(0, next.time - Date.now()),
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { $card, Card } from '../utils/card';
+import { Phase } from '../session';
+import type { CValue } from '../utils/state';
+import type { NightOrderItem } from '../utils/night-order';
+
+interface Props {
+  phase: CValue<Phase>;
+
+  /** 当前是第几个夜晚 */
+  nightCount: CValue<number>;
+
+  /** 夜晚行动顺序 */
+  nightOrder: CValue<NightOrderItem[]>;
+}
+
+/**
+ * 夜晚行动顺序卡片
+ */
+class CardRenderer extends Card<Props> {
+  render(state: Props) {
+    const night = state.phase.value === Phase.NIGHT || state.phase.value === Phase.COTTAGE;
+
+    if (!night) {
+      return {
+        content: JSON.stringify([
+          {
+            type: 'card',
+            theme: 'secondary',
+            size: 'lg',
+            modules: [
+              {
+                type: 'section',
+                text: {
+                  type: 'kmarkdown',
+                  content:
+                    '**夜晚行动顺序**\n(font)夜晚阶段会根据魔典中的在场角色显示行动顺序(font)[tips]',
+                },
+              },
+            ],
+          },
+        ]),
+      };
+    }
+
+    const items = state.nightOrder.value;
+    const first = state.nightCount.value <= 1;
+    const doneCount = items.filter((item) => item.done).length;
+
+    const modules: any[] = [
+      {
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content: `**夜晚行动顺序** - ${first ? '首个夜晚' : `第 ${state.nightCount.value} 个夜晚`} (font)(${doneCount} / ${items.length})(font)[secondary]`,
+        },
+        mode: 'right',
+        accessory: {
+          type: 'button',
+          theme: 'secondary',
+          text: {
+            type: 'plain-text',
+            content: '重置',
+          },
+          click: 'return-val',
+          value: '[st]NightOrderReset',
+        },
+      },
+      {
+        type: 'divider',
+      },
+    ];
+
+    if (items.length === 0) {
+      modules.push({
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content: '(font)今晚没有需要唤醒的角色，可以在魔典中为玩家分配角色(font)[tips]',
+        },
+      });
+    }
+
+    items.forEach((item, index) => {
+      const players = item.players.map((id) => `(met)${id}(met)`).join(' ');
+      const title = item.done
+        ? `~~${item.name}~~ ${players}`
+        : `**(font)${item.name}(font)[warning]** ${players}`;
+
+      modules.push({
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content: `${title}\n(font)${item.reminder}(font)[${item.done ? 'tips' : 'secondary'}]`,
+        },
+        mode: 'right',
+        accessory: {
+          type: 'button',
+          theme: item.done ? 'secondary' : 'success',
+          text: {
+            type: 'plain-text',
+            content: item.done ? '撤销' : '完成',
+          },
+          click: 'return-val',
+          value: `[st]NightOrderTick|${index}`,
+        },
+      });
+    });
+
+    return {
+      content: JSON.stringify([
+        {
+          type: 'card',
+          theme: 'primary',
+          size: 'lg',
+          modules,
+        },
+      ]),
+    };
+  }
+}
+
+export default (state: Props) => $card(new CardRenderer(state));
@@ -0,0 +1,136 @@
+import { $card, Card } from '../utils/card';
+import { Alignment, Phase, PlayerStatus } from '../session';
+import type { CValue } from '../utils/state';
+import type { SpectatorView } from '../broadcast';
+import { CIRCLED_NUMBERS } from '../consts';
+
+interface Props {
+  /** 是否开启魔典直播 */
+  enabled: CValue<boolean>;
+
+  /** 直播延迟（秒） */
+  delay: CValue<number>;
+
+  /** 延迟后的魔典画面 */
+  view: CValue<SpectatorView | null>;
+}
+
+/** 卡片最多只能有 50 个模块，为标题与玩家列表预留位置 */
+const MAX_PRIVATE_MODULES = 40;
+
+const phaseLabel = (view: SpectatorView) => {
+  switch (view.phase) {
+    case Phase.NIGHT:
+    case Phase.COTTAGE:
+      return `🌠 第 ${view.day} 个夜晚`;
+    case Phase.DAY:
+    case Phase.ROAMING:
+      return `🌅 第 ${view.day} 天`;
+    case Phase.FINISH_GOOD:
+      return '(font)善良阵营胜利(font)[info]';
+    case Phase.FINISH_BAD:
+      return '(font)邪恶阵营胜利(font)[danger]';
+    default:
+      return '准备阶段';
+  }
+};
+
+/**
+ * 旁观频道中的魔典直播卡片
+ */
+class CardRenderer extends Card<Props> {
+  // 托梦内容由说书人提供，静默报错
+  override suppressError = true;
+
+  render(state: Props) {
+    const view = state.view.value;
+    const delay = Math.round(state.delay.value / 60);
+
+    if (!state.enabled.value || !view) {
+      return {
+        content: JSON.stringify([
+          {
+            type: 'card',
+            theme: 'secondary',
+            size: 'lg',
+            modules: [
+              {
+                type: 'section',
+                text: {
+                  type: 'kmarkdown',
+                  content: state.enabled.value
+                    ? `**魔典直播** (font)延迟 ${delay} 分钟(font)[secondary]\n(font)直播画面将在延迟后出现(font)[tips]`
+                    : '**魔典直播**\n(font)说书人开启魔典直播后，这里会延迟显示魔典与托梦内容(font)[tips]',
+                },
+              },
+            ],
+          },
+        ]),
+      };
+    }
+
+    const players = view.players.map((player, index) => {
+      const slot = CIRCLED_NUMBERS[index + 1] || '⓪';
+      const character = player.character
+        ? `(font)${player.character}(font)[${player.alignment === Alignment.EVIL ? 'danger' : 'info'}]`
+        : '(font)未分配(font)[tips]';
+      const dead = player.status === PlayerStatus.ALIVE ? '' : ' 💀';
+      const reminders = player.reminders.map((reminder) => `[${reminder}]`).join('');
+      return `${slot} (met)${player.id}(met) ${character}${dead}${reminders ? ` (font)${reminders}(font)[warning]` : ''}`;
+    });
+
+    const modules: any[] = [
+      {
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content: `**魔典直播** - ${phaseLabel(view)} (font)(延迟 ${delay} 分钟)(font)[secondary]`,
+        },
+      },
+      {
+        type: 'divider',
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content: players.length > 0 ? players.join('\n') : '(font)还没有玩家(font)[tips]',
+        },
+      },
+    ];
+
+    // 从最新的托梦开始，直到模块数量达到上限
+    const privates: any[] = [];
+    for (let i = view.privates.length - 1; i >= 0; i--) {
+      const item = view.privates[i]!;
+      if (privates.length + item.modules.length + 1 > MAX_PRIVATE_MODULES) break;
+      privates.unshift(
+        {
+          type: 'section',
+          text: {
+            type: 'kmarkdown',
+            content: `🌙 **托梦给** (met)${item.to}(met)`,
+          },
+        },
+        ...item.modules,
+      );
+    }
+
+    if (privates.length > 0) {
+      modules.push({ type: 'divider' }, ...privates);
+    }
+
+    return {
+      content: JSON.stringify([
+        {
+          type: 'card',
+          theme: 'primary',
+          size: 'lg',
+          modules,
+        },
+      ]),
+    };
+  }
+}
+
+export default (state: Props) => $card(new CardRenderer(state));
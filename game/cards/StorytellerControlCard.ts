@@ -2,8 +2,8 @@ import { $card, Card } from '../utils/card';
 import { GAME } from '../../bot';
 import { Phase } from '../session';
 import type { CValue } from '../utils/state';
-import type { ActionGroup } from '../../templates/types';
-import { LOCATION_BUTTONS } from '../consts';
+import type { ActionButton, ActionGroup } from '../../templates/types';
+import { locationButtons, type RoamingLocation } from '../utils/locations';
 
 interface Props {
   name: CValue<string>;
@@ -11,6 +11,21 @@ interface Props {
   phase: CValue<Phase>;
   storytellerId: CValue<string>;
   busy: CValue<boolean>;
+
+  /** 阶段计时 */
+  phaseTimer: CValue<{ start: number; end: number }>;
+
+  /** 自由活动地点 */
+  locations: CValue<RoamingLocation[]>;
+
+  /** 各地点的人数 */
+  locationOccupancy: CValue<number[]>;
+
+  /** 是否正在管理地点 */
+  manageLocations: CValue<boolean>;
+
+  /** 自由活动计时结束后是否自动回到广场集会 */
+  phaseTimerAuto: CValue<boolean>;
 }
 
 /**
@@ -26,6 +41,12 @@ class CardRenderer extends Card<Props> {
 
     let groups: ActionGroup[] = [];
 
+    const timer = state.phaseTimer.value;
+    const timerButton: ActionButton =
+      timer.end > 0
+        ? { text: '取消计时', theme: 'danger', value: '[st]PhaseTimerCancel' }
+        : { text: '计时', theme: 'secondary' };
+
     switch (state.phase.value) {
       case Phase.WAITING_FOR_STORYTELLER:
         mode = `(font)等待说书人(font)[secondary]`;
@@ -37,12 +58,12 @@ class CardRenderer extends Card<Props> {
         switch (state.phase.value) {
           case Phase.FINISH_GOOD:
             mode = `(font)游戏结束 -(font)[secondary] (font)善良阵营胜利(font)[info]`;
-            status = '游戏已结束\n(font)玩家的托梦数据与存活状态已被重置(font)[warning]';
+            status = '游戏已结束\n(font)玩家的托梦数据、存活状态与魔典已被重置(font)[warning]';
             image = GAME.assets['banner_good'];
             break;
           case Phase.FINISH_BAD:
             mode = `(font)游戏结束 -(font)[secondary] (font)邪恶阵营胜利(font)[danger]`;
-            status = '游戏已结束\n(font)玩家的托梦数据与存活状态已被重置(font)[warning]';
+            status = '游戏已结束\n(font)玩家的托梦数据、存活状态与魔典已被重置(font)[warning]';
             image = GAME.assets['banner_bad'];
             break;
           default:
@@ -53,7 +74,7 @@ class CardRenderer extends Card<Props> {
         }
         groups.push([
           { text: '🌠 开始', theme: 'info', value: '[st]GameStart' },
-          { text: '　', theme: 'secondary' },
+          { text: '准备确认', theme: 'success', value: '[st]ReadyCheck' },
           state.phase.value == Phase.FINISH_GOOD
             ? { text: '　', theme: 'secondary' }
             : { text: '好人胜利', theme: 'info', value: '[st]GameRestart|good' },
@@ -95,6 +116,12 @@ class CardRenderer extends Card<Props> {
           { text: '好人胜利', theme: 'info', value: '[st]GameRestart|good' },
           { text: '坏人胜利', theme: 'danger', value: '[st]GameRestart|bad' },
         ]);
+        groups.push([
+          timerButton,
+          { text: '1分钟', theme: 'info', value: '[st]PhaseTimer|60' },
+          { text: '3分钟', theme: 'info', value: '[st]PhaseTimer|180' },
+          { text: '5分钟', theme: 'info', value: '[st]PhaseTimer|300' },
+        ]);
         break;
       case Phase.ROAMING:
         mode = `(font)白天阶段 - 自由活动(font)[secondary]`;
@@ -107,7 +134,27 @@ class CardRenderer extends Card<Props> {
           { text: '好人胜利', theme: 'info', value: '[st]GameRestart|good' },
           { text: '坏人胜利', theme: 'danger', value: '[st]GameRestart|bad' },
         ]);
-        groups.push(...LOCATION_BUTTONS);
+        groups.push([
+          timerButton,
+          { text: '3分钟', theme: 'info', value: '[st]PhaseTimer|180' },
+          { text: '5分钟', theme: 'info', value: '[st]PhaseTimer|300' },
+          state.phaseTimerAuto.value
+            ? { text: '自动集会', theme: 'success', value: '[st]TogglePhaseTimerAuto' }
+            : { text: '手动集会', theme: 'secondary', value: '[st]TogglePhaseTimerAuto' },
+        ]);
+        const manage = state.manageLocations.value;
+        groups.push([
+          manage
+            ? { text: '完成管理', theme: 'success', value: '[st]ToggleManageLocations' }
+            : { text: '地点管理', theme: 'secondary', value: '[st]ToggleManageLocations' },
+        ]);
+        if (manage) {
+          status +=
+            '\n(font)点击地点按钮锁定或解锁地点，发送 `上限 地点 人数` 设置地点的人数上限(font)[tips]';
+        }
+        groups.push(
+          ...locationButtons(state.locations.value, state.locationOccupancy.value, manage),
+        );
         break;
     }
 
@@ -122,11 +169,17 @@ class CardRenderer extends Card<Props> {
       header = `**(font)${icon} 说书人控制台(font)[warning]** ${mode}`;
     }
 
+    const countdown =
+      timer.end > 0 && (state.phase.value === Phase.DAY || state.phase.value === Phase.ROAMING)
+        ? timer
+        : undefined;
+
     return {
       content: JSON.stringify({
         image,
         status: `${header}\n${status}`,
         groups: groups,
+        countdown,
       }),
       template_id: GAME.templates.storyteller,
     };
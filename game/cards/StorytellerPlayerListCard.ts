@@ -1,10 +1,21 @@
 import { $card, Card } from '../utils/card';
 import { GAME } from '../../bot';
-import { ListMode, Phase, type ListPlayerItem } from '../session';
+import {
+  ClockHand,
+  ListMode,
+  Phase,
+  type ChannelGroup,
+  type ExecutionBlock,
+  type ListPlayerItem,
+} from '../session';
+import { executionInfo } from '../vote';
 import type { CValue, CArray } from '../utils/state';
-import type { ActionGroup } from '../../templates/types';
+import type { ActionButton, ActionGroup } from '../../templates/types';
 import type { PlayersTemplateParams } from '../../templates/players';
 import type { ButtonTheme } from '../../lib/api';
+import type { Role } from '../../scripts/validator';
+import { BAG_TEAMS, getBagComposition } from '../utils/bag';
+import { TEAM_NAMES } from '../utils/characters';
 
 interface Props {
   /** （说书人）列表模式 */
@@ -22,6 +33,63 @@ interface Props {
   /** 列表参数 */
   listArg: CValue<number>;
 
+  /** 发牌用的角色袋 */
+  bag: CValue<Role[]>;
+
+  /** 当前是第几天 */
+  day: CValue<number>;
+
+  /** 今天的提名记录 */
+  nominations: CValue<{ nominators: string[]; nominees: string[] }>;
+
+  /** 是否禁止重复提名 */
+  blockRepeatNomination: CValue<boolean>;
+
+  /** 处决候选 */
+  block: CValue<ExecutionBlock>;
+
+  /** 提名投票的时钟指针状态 */
+  clockHand: CValue<ClockHand>;
+
+  /** 是否为放逐投票 */
+  exile: CValue<boolean>;
+
+  /** 是否开启了旁观语音频道 */
+  spectatorVoiceChannel: CValue<boolean>;
+
+  /** 是否开启魔典直播 */
+  spectatorBroadcast: CValue<boolean>;
+
+  /** 魔典直播的延迟（秒） */
+  spectatorDelay: CValue<number>;
+
+  /** 玩家的私聊请求 */
+  whispers: CValue<{ from: string; to: string }[]>;
+
+  /** 私聊时长（秒） */
+  whisperTime: CValue<number>;
+
+  /** 按语音频道分组的用户 */
+  channelGroups: CValue<ChannelGroup[]>;
+
+  /** 是否定时汇总位置变化 */
+  locationSummary: CValue<boolean>;
+
+  /** 是否正在进行准备确认 */
+  readyCheck: CValue<boolean>;
+
+  /** 已经准备好的玩家 */
+  ready: CValue<string[]>;
+
+  /** 玩家的换座请求 */
+  seatRequests: CValue<{ from: string; to: string }[]>;
+
+  /** 夜晚唤醒队列 */
+  wakeQueue: CValue<string[]>;
+
+  /** 正在唤醒的位置 */
+  wakeIndex: CValue<number>;
+
   /** 投票详情 */
   voteDescription: CValue<string>;
 
@@ -80,7 +148,36 @@ class CardRenderer extends Card<Props> {
             ? { text: '传唤', theme: 'warning', value: '[st]ListSummon' }
             : state.phase.value === Phase.ROAMING
               ? { text: '小屋', theme: 'success', value: '[st]ListCottage' }
+              : state.seatRequests.value.length > 0
+                ? {
+                    text: `准备 (${state.seatRequests.value.length})`,
+                    theme: 'warning',
+                    value: '[st]ListReady',
+                  }
+                : state.phase.value === Phase.PREPARING ||
+                    state.phase.value === Phase.FINISH_GOOD ||
+                    state.phase.value === Phase.FINISH_BAD
+                  ? { text: '准备', theme: 'secondary', value: '[st]ListReady' }
+                  : { text: '　', theme: 'secondary' },
+        ]);
+        groups.push([
+          { text: '魔典', theme: 'primary', value: '[st]ListGrimoire' },
+          { text: '投票规则', theme: 'info', value: '[st]ListVoteRule' },
+          state.phase.value === Phase.DAY
+            ? state.whispers.value.length > 0
+              ? {
+                  text: `私聊 (${state.whispers.value.length})`,
+                  theme: 'warning',
+                  value: '[st]ListWhisper',
+                }
+              : { text: '私聊', theme: 'secondary', value: '[st]ListWhisper' }
+            : state.phase.value === Phase.ROAMING
+              ? { text: '巡视', theme: 'success', value: '[st]ListEavesdrop' }
               : { text: '　', theme: 'secondary' },
+          state.block.value.nominee &&
+          (state.phase.value === Phase.DAY || state.phase.value === Phase.ROAMING)
+            ? { text: '处决', theme: 'danger', value: '[st]Execute' }
+            : { text: '　', theme: 'secondary' },
         ]);
         theme = 'secondary';
         action = { text: '切换', theme: 'info' };
@@ -108,15 +205,48 @@ class CardRenderer extends Card<Props> {
         status = spectatorVoice
           ? '**(font)旁观调整(font)[info]**\n调整玩家旁观状态，旁观者在游戏开始后(font)可以发言(font)[success]'
           : '**(font)旁观调整(font)[info]**\n调整玩家旁观状态，旁观者在游戏开始后(font)将被禁言(font)[warning]';
-        groups.push([{ text: '退出', theme: 'danger', value: '[st]ListStatus' }]);
+        if (state.spectatorBroadcast.value) {
+          status += `\n魔典直播已开启，旁观频道会延迟 ${Math.round(state.spectatorDelay.value / 60)} 分钟显示魔典与托梦内容`;
+        }
         groups.push([
-          { text: '设置助手', theme: 'warning', value: '[st]ListHelper' },
+          { text: '退出', theme: 'danger', value: '[st]ListStatus' },
           { text: '　', theme: 'secondary' },
+          { text: '魔典直播', theme: 'secondary', value: '[st]ToggleSpectatorBroadcast' },
+          state.spectatorBroadcast.value
+            ? { text: '设为关闭', theme: 'warning', value: '[st]ToggleSpectatorBroadcast' }
+            : { text: '设为开启', theme: 'success', value: '[st]ToggleSpectatorBroadcast' },
+        ]);
+        groups.push([
+          { text: '设置助手', theme: 'warning', value: '[st]ListHelper' },
+          state.spectatorVoiceChannel.value
+            ? { text: '关闭旁观席', theme: 'danger', value: '[st]ToggleSpectatorChannel' }
+            : { text: '开启旁观席', theme: 'info', value: '[st]ToggleSpectatorChannel' },
           { text: '旁观语音', theme: 'secondary', value: '[st]ToggleSpectatorMute' },
           spectatorVoice
             ? { text: '设为禁止', theme: 'warning', value: '[st]ToggleSpectatorMute' }
             : { text: '设为允许', theme: 'success', value: '[st]ToggleSpectatorMute' },
         ]);
+        if (state.spectatorBroadcast.value) {
+          const delay = state.spectatorDelay.value;
+          groups.push([
+            { text: '直播延迟', theme: 'secondary' },
+            {
+              text: '1分钟',
+              theme: delay === 60 ? 'info' : 'secondary',
+              value: '[st]SpectatorDelay|60',
+            },
+            {
+              text: '3分钟',
+              theme: delay === 180 ? 'info' : 'secondary',
+              value: '[st]SpectatorDelay|180',
+            },
+            {
+              text: '5分钟',
+              theme: delay === 300 ? 'info' : 'secondary',
+              value: '[st]SpectatorDelay|300',
+            },
+          ]);
+        }
         theme = 'info';
         action = { text: '移出游戏', theme: 'danger' };
         value = 'Spectate';
@@ -165,14 +295,23 @@ class CardRenderer extends Card<Props> {
 
       case ListMode.NOMINATE:
         const voteTime = state.listArg.value;
+        const exile = state.exile.value;
+        const day = state.day.value > 0 ? ` (font)第 ${state.day.value} 天(font)[secondary]` : '';
+        const title = exile
+          ? `**(font)发起放逐(font)[warning]**${day}`
+          : `**(font)发起提名(font)[danger]**${day}`;
         status =
           state.listSelected.length > 0
-            ? '**(font)发起提名(font)[danger]**\n点击按钮发起投票处决指定玩家'
-            : '**(font)发起提名(font)[danger]**\n点击按钮选择发起提名的玩家';
+            ? `${title}\n点击按钮发起投票${exile ? '放逐' : '处决'}指定玩家`
+            : `${title}\n点击按钮选择发起${exile ? '放逐' : '提名'}的玩家`;
         groups.push([
           { text: '退出', theme: 'danger', value: '[st]ListStatus' },
-          { text: '　', theme: 'secondary' },
-          { text: '　', theme: 'secondary' },
+          state.blockRepeatNomination.value
+            ? { text: '禁止重复', theme: 'danger', value: '[st]ToggleRepeatNomination' }
+            : { text: '重复提醒', theme: 'warning', value: '[st]ToggleRepeatNomination' },
+          exile
+            ? { text: '放逐投票', theme: 'warning', value: '[st]ToggleExile' }
+            : { text: '处决投票', theme: 'danger', value: '[st]ToggleExile' },
           { text: '统一计票', theme: 'info', value: '[st]NormalVote' },
         ]);
         groups.push([
@@ -203,7 +342,9 @@ class CardRenderer extends Card<Props> {
         groups.push([{ text: '退出', theme: 'danger', value: '[st]ListStatus' }]);
         groups.push([
           { text: '传唤模式', theme: 'warning', value: '[st]ListSummon' },
-          { text: '　', theme: 'secondary' },
+          state.phase.value === Phase.COTTAGE
+            ? { text: '唤醒队列', theme: 'primary', value: '[st]ListWake' }
+            : { text: '　', theme: 'secondary' },
           { text: '　', theme: 'secondary' },
           { text: '城镇广场', theme: 'info', value: '[st]GotoTownsquare' },
         ]);
@@ -217,7 +358,9 @@ class CardRenderer extends Card<Props> {
         groups.push([{ text: '退出', theme: 'danger', value: '[st]ListStatus' }]);
         groups.push([
           { text: '小屋模式', theme: 'success', value: '[st]ListCottage' },
-          { text: '　', theme: 'secondary' },
+          state.phase.value === Phase.COTTAGE
+            ? { text: '唤醒队列', theme: 'primary', value: '[st]ListWake' }
+            : { text: '　', theme: 'secondary' },
           { text: '　', theme: 'secondary' },
           { text: '城镇广场', theme: 'info', value: '[st]GotoTownsquare' },
         ]);
@@ -244,9 +387,16 @@ class CardRenderer extends Card<Props> {
             ? { text: '重新开始', theme: 'danger', value: '[st]StopVoting' }
             : { text: '开始统计', theme: 'info', value: `[st]StartVoting` },
         ]);
+        const clockHand = state.clockHand.value;
         groups.push([
-          { text: '　', theme: 'secondary' },
-          { text: '　', theme: 'secondary' },
+          clockHand === ClockHand.RUNNING
+            ? { text: '暂停', theme: 'warning', value: '[st]ToggleClockHand' }
+            : clockHand === ClockHand.PAUSED
+              ? { text: '继续', theme: 'success', value: '[st]ToggleClockHand' }
+              : { text: '　', theme: 'secondary' },
+          clockHand !== ClockHand.NONE
+            ? { text: '后退一格', theme: 'secondary', value: '[st]ClockHandBack' }
+            : { text: '　', theme: 'secondary' },
           { text: '-1', theme: 'info', value: '[st]VoteRemove' },
           { text: '+1', theme: 'info', value: '[st]VoteAdd' },
         ]);
@@ -254,6 +404,234 @@ class CardRenderer extends Card<Props> {
         value = 'Voting';
         break;
 
+      case ListMode.GRIMOIRE:
+        status =
+          state.listSelected.length > 0
+            ? '**(font)魔典(font)[primary]**\n发送角色名称分配角色，发送 `善良` 或 `邪恶` 设置阵营\n发送 `+标记` 添加提示标记，发送 `-标记` 移除提示标记'
+            : '**(font)魔典(font)[primary]**\n选择一名玩家编辑其角色、阵营与提示标记\n魔典仅说书人可见，此时发送的消息不会转发给玩家';
+        groups.push([
+          { text: '退出', theme: 'danger', value: '[st]ListStatus' },
+          { text: '发牌', theme: 'warning', value: '[st]ListDeal' },
+          { text: '备注', theme: 'info', value: '[st]ListNotes' },
+          { text: '清空魔典', theme: 'danger', value: '[st]GrimoireReset' },
+        ]);
+        groups.push(
+          state.listSelected.length > 0
+            ? [
+                { text: '切换阵营', theme: 'warning', value: '[st]GrimoireAlignment' },
+                { text: '清除', theme: 'danger', value: '[st]GrimoireClearPlayer' },
+              ]
+            : [],
+        );
+        theme = 'primary';
+        action = { text: '选择', theme: 'primary' };
+        value = 'Grimoire';
+        break;
+
+      case ListMode.NOTES:
+        status =
+          state.listSelected.length > 0
+            ? '**(font)备注(font)[info]**\n发送消息为玩家添加一条备注，发送 `-序号` 移除对应的备注'
+            : '**(font)备注(font)[info]**\n选择一名玩家编辑备注\n备注仅说书人可见，此时发送的消息不会转发给玩家';
+        groups.push([
+          { text: '退出', theme: 'danger', value: '[st]ListStatus' },
+          { text: '魔典', theme: 'primary', value: '[st]ListGrimoire' },
+          { text: '　', theme: 'secondary' },
+          state.listSelected.length > 0
+            ? { text: '清除备注', theme: 'danger', value: '[st]NotesClear' }
+            : { text: '　', theme: 'secondary' },
+        ]);
+        theme = 'info';
+        action = { text: '选择', theme: 'info' };
+        value = 'Notes';
+        break;
+
+      case ListMode.DEAL: {
+        const bag = state.bag.value;
+        const playerCount = state.list.value.filter((item) => item.type === 'player').length;
+        const composition = getBagComposition(playerCount);
+
+        // 各阵营角色数量，与标准配置不同时高亮
+        const counts = BAG_TEAMS.map((team) => {
+          const count = bag.filter((role) => role.team === team).length;
+          const expected = composition?.[team] ?? 0;
+          return `${TEAM_NAMES[team]} (font)${count}/${expected}(font)[${count === expected ? 'success' : 'warning'}]`;
+        });
+
+        status = [
+          `**(font)发牌(font)[warning]**　(font)角色袋 ${bag.length} / ${playerCount} 名玩家(font)[${bag.length === playerCount ? 'success' : 'danger'}]`,
+          counts.join('　'),
+          bag.length > 0
+            ? bag.map((role) => role.name).join('、')
+            : '(font)角色袋是空的(font)[tips]',
+          '(font)发送 `+角色` 添加角色，发送 `-角色` 移除角色，确认后将随机发给玩家(font)[tips]',
+        ].join('\n');
+        groups.push([
+          { text: '退出', theme: 'danger', value: '[st]ListGrimoire' },
+          { text: '　', theme: 'secondary' },
+          { text: '重新生成', theme: 'info', value: '[st]DealRebuild' },
+          { text: '随机发牌', theme: 'warning', value: '[st]DealConfirm' },
+        ]);
+        theme = 'warning';
+        value = 'Deal';
+        break;
+      }
+
+      case ListMode.WHISPER: {
+        const whispers = state.whispers.value;
+        const whisperTime = state.whisperTime.value;
+        status = [
+          '**(font)私聊请求(font)[warning]**\n同意后两名玩家会被移动到临时的私聊频道，时间到后回到城镇广场',
+          whispers.length > 0
+            ? whispers.map((w) => `(met)${w.from}(met) ➡️ (met)${w.to}(met)`).join('\n')
+            : '(font)目前没有私聊请求(font)[tips]',
+        ].join('\n');
+        groups.push([
+          { text: '退出', theme: 'danger', value: '[st]ListStatus' },
+          { text: '　', theme: 'secondary' },
+          { text: '　', theme: 'secondary' },
+          whispers.length > 0
+            ? { text: '全部拒绝', theme: 'danger', value: '[st]WhisperRejectAll' }
+            : { text: '　', theme: 'secondary' },
+        ]);
+        groups.push([
+          { text: '私聊时间', theme: 'secondary' },
+          {
+            text: '1分钟',
+            theme: whisperTime === 60 ? 'info' : 'secondary',
+            value: '[st]SetWhisperTime|60',
+          },
+          {
+            text: '2分钟',
+            theme: whisperTime === 120 ? 'info' : 'secondary',
+            value: '[st]SetWhisperTime|120',
+          },
+          {
+            text: '3分钟',
+            theme: whisperTime === 180 ? 'info' : 'secondary',
+            value: '[st]SetWhisperTime|180',
+          },
+        ]);
+        theme = 'warning';
+        action = { text: '同意', theme: 'success' };
+        value = 'Whisper';
+        break;
+      }
+
+      case ListMode.READY: {
+        const seatRequests = state.seatRequests.value;
+        const players = state.list.value.filter((item) => item.type === 'player');
+        const readyCount = players.filter((item) => state.ready.value.includes(item.id)).length;
+        status = [
+          state.readyCheck.value
+            ? `**(font)准备确认(font)[success]** (font)(${readyCount} / ${players.length})(font)[secondary]\n未准备的玩家会在列表中标出`
+            : '**(font)准备确认(font)[success]**\n点击「发起确认」让所有玩家确认准备',
+          seatRequests.length > 0
+            ? seatRequests.map((r) => `(met)${r.from}(met) 🔄 (met)${r.to}(met)`).join('\n')
+            : '(font)目前没有换座请求(font)[tips]',
+        ].join('\n');
+        groups.push([
+          { text: '退出', theme: 'danger', value: '[st]ListStatus' },
+          state.readyCheck.value
+            ? { text: '重新确认', theme: 'info', value: '[st]ReadyCheck' }
+            : { text: '发起确认', theme: 'success', value: '[st]ReadyCheck' },
+          state.readyCheck.value
+            ? { text: '结束确认', theme: 'secondary', value: '[st]ReadyCheckEnd' }
+            : { text: '　', theme: 'secondary' },
+          seatRequests.length > 0
+            ? { text: '全部拒绝', theme: 'danger', value: '[st]SeatRejectAll' }
+            : { text: '　', theme: 'secondary' },
+        ]);
+        theme = 'success';
+        action = { text: '同意换座', theme: 'success' };
+        value = 'Ready';
+        break;
+      }
+
+      case ListMode.WAKE: {
+        const queue = state.wakeQueue.value;
+        const wakeIndex = state.wakeIndex.value;
+        const finished = wakeIndex >= queue.length;
+        status = [
+          `**(font)唤醒队列(font)[primary]** (font)(${Math.min(Math.max(wakeIndex, 0), queue.length)} / ${queue.length})(font)[secondary]\n按顺序将玩家传唤至你所在的语音频道，传唤下一位时上一位玩家会被送回小屋`,
+          queue.length > 0
+            ? queue
+                .map((id, index) =>
+                  index < wakeIndex
+                    ? `✅ (met)${id}(met)`
+                    : index === wakeIndex
+                      ? `▶️ **(met)${id}(met)**`
+                      : `${index + 1}. (met)${id}(met)`,
+                )
+                .join('\n')
+            : '(font)队列为空，点击玩家加入队列(font)[tips]',
+        ].join('\n');
+        groups.push([
+          { text: '退出', theme: 'danger', value: '[st]ListStatus' },
+          { text: '按行动顺序', theme: 'info', value: '[st]WakeSeed' },
+          { text: '清空', theme: 'secondary', value: '[st]WakeClear' },
+          queue.length === 0 || finished
+            ? { text: '已完成', theme: 'secondary' }
+            : wakeIndex < 0
+              ? { text: '开始', theme: 'success', value: '[st]WakeNext' }
+              : wakeIndex === queue.length - 1
+                ? { text: '结束', theme: 'warning', value: '[st]WakeNext' }
+                : { text: '下一位', theme: 'success', value: '[st]WakeNext' },
+        ]);
+        groups.push([
+          { text: '传唤模式', theme: 'warning', value: '[st]ListSummon' },
+          { text: '小屋模式', theme: 'success', value: '[st]ListCottage' },
+          { text: '　', theme: 'secondary' },
+          { text: '城镇广场', theme: 'info', value: '[st]GotoTownsquare' },
+        ]);
+        theme = 'primary';
+        action = { text: '加入', theme: 'success' };
+        value = 'Wake';
+        break;
+      }
+
+      case ListMode.EAVESDROP: {
+        const channelGroups = state.channelGroups.value;
+        status = [
+          '**(font)巡视(font)[success]**\n点击玩家或频道按钮前往对应的语音频道',
+          ...channelGroups.map(
+            (group) =>
+              `**${group.name}** (font)(${group.users.length})(font)[secondary] ${group.users.map((id) => `(met)${id}(met)`).join(' ')}`,
+          ),
+        ].join('\n');
+        groups.push([
+          { text: '退出', theme: 'danger', value: '[st]ListStatus' },
+          { text: '　', theme: 'secondary' },
+          { text: '位置汇总', theme: 'secondary' },
+          state.locationSummary.value
+            ? { text: '已开启', theme: 'success', value: '[st]ToggleLocationSummary' }
+            : { text: '已关闭', theme: 'secondary', value: '[st]ToggleLocationSummary' },
+        ]);
+
+        // 每个频道一个按钮，最多显示两组
+        const buttons: ActionButton[] = channelGroups.slice(0, 8).map((group) => ({
+          text: `${group.name} ${group.users.length}`,
+          theme: 'info',
+          value: `[st]EavesdropJoin|${group.id}`,
+        }));
+        for (let i = 0; i < buttons.length; i += 4) {
+          groups.push(buttons.slice(i, i + 4) as ActionGroup);
+        }
+        theme = 'success';
+        action = { text: '前往', theme: 'info' };
+        value = 'Eavesdrop';
+        break;
+      }
+
+      case ListMode.VOTE_RULE:
+        status =
+          '**(font)投票规则(font)[purple]**\n点击按钮依次切换玩家的投票规则：正常、双票、禁票、限票\n(font)限票的玩家投票后将失去投票权，放逐投票不受投票规则影响(font)[tips]';
+        groups.push([{ text: '退出', theme: 'danger', value: '[st]ListStatus' }]);
+        theme = 'info';
+        action = { text: '切换', theme: 'info' };
+        value = 'VoteRule';
+        break;
+
       case ListMode.TRANSFER:
         status = '**(font)换说书人(font)[warning]**\n点击选择新的说书人，该功能会创建新的房间';
         groups.push([{ text: '取消', theme: 'danger', value: '[st]ListStatus' }]);
@@ -263,6 +641,15 @@ class CardRenderer extends Card<Props> {
         break;
     }
 
+    // 状态与提名模式下显示处决候选
+    const execution = executionInfo(state.block.value);
+    if (
+      execution &&
+      (state.listMode.value === ListMode.STATUS || state.listMode.value === ListMode.NOMINATE)
+    ) {
+      status += '\n' + execution;
+    }
+
     // 确保所有按钮组都是4个
     if (groups.length < 2) {
       groups.push([]);
@@ -275,6 +662,10 @@ class CardRenderer extends Card<Props> {
 
     // 构建玩家列表
     const selectedSet = new Set(state.listSelected);
+    const nominators = new Set(state.nominations.value.nominators);
+    const nominees = new Set(state.nominations.value.nominees);
+    const whisperers = new Set(state.whispers.value.map((w) => w.from));
+    const seatRequesters = new Set(state.seatRequests.value.map((r) => r.from));
     const players = state.list.value.map((item: ListPlayerItem) => {
       let info = item.preVoteInfo + item.vote + item.postVoteInfo;
       let action: { text: string; theme: ButtonTheme } | 'none' | undefined;
@@ -348,6 +739,14 @@ class CardRenderer extends Card<Props> {
         case ListMode.NOMINATE:
           if (selectedSet.has(item.id)) {
             action = { text: '提名者', theme: 'secondary' };
+          } else if (item.type !== 'player') {
+            break;
+          } else if (selectedSet.size === 0 && nominators.has(item.id)) {
+            // 今天已经发起过提名
+            action = { text: '已提名', theme: 'secondary' };
+          } else if (selectedSet.size > 0 && nominees.has(item.id)) {
+            // 今天已经被提名过
+            action = { text: '已被提名', theme: 'secondary' };
           }
           break;
 
@@ -363,6 +762,59 @@ class CardRenderer extends Card<Props> {
           }
           break;
 
+        case ListMode.DEAL:
+          action = 'none';
+          break;
+
+        case ListMode.VOTE_RULE:
+          if (item.type !== 'player') {
+            action = 'none';
+          }
+          break;
+
+        case ListMode.READY:
+          // 只有发起了换座请求的玩家可以操作
+          if (!seatRequesters.has(item.id)) {
+            action = 'none';
+          }
+          break;
+
+        case ListMode.WAKE: {
+          const index = state.wakeQueue.value.indexOf(item.id);
+          if (item.type !== 'player') {
+            action = 'none';
+          } else if (index !== -1 && index < state.wakeIndex.value) {
+            action = { text: '已唤醒', theme: 'secondary' };
+          } else if (index !== -1 && index === state.wakeIndex.value) {
+            action = { text: '唤醒中', theme: 'warning' };
+          } else if (index !== -1) {
+            action = { text: '移出', theme: 'danger' };
+          }
+          break;
+        }
+
+        case ListMode.EAVESDROP:
+          if (item.type === 'storyteller' || !item.joined) {
+            action = 'none';
+          }
+          break;
+
+        case ListMode.WHISPER:
+          // 只有发起了私聊请求的玩家可以操作
+          if (!whisperers.has(item.id)) {
+            action = 'none';
+          }
+          break;
+
+        case ListMode.NOTES:
+        case ListMode.GRIMOIRE:
+          if (item.type !== 'player') {
+            action = 'none';
+          } else if (selectedSet.has(item.id)) {
+            action = { text: '编辑中', theme: 'secondary' };
+          }
+          break;
+
         case ListMode.SUMMON:
           if (item.type === 'storyteller') {
             action = 'none';
@@ -2,12 +2,27 @@ import { $card, Card } from '../utils/card';
 import { GAME } from '../../bot';
 import { Phase } from '../session';
 import type { CValue } from '../utils/state';
-import type { ActionGroup } from '../../templates/types';
-import { LOCATION_BUTTONS } from '../consts';
+import type { ActionButton, ActionGroup } from '../../templates/types';
+import { locationButtons, type RoamingLocation } from '../utils/locations';
 
 interface Props {
   invite: CValue<string>;
   phase: CValue<Phase>;
+
+  /** 阶段计时 */
+  phaseTimer: CValue<{ start: number; end: number }>;
+
+  /** 自由活动地点 */
+  locations: CValue<RoamingLocation[]>;
+
+  /** 各地点的人数 */
+  locationOccupancy: CValue<number[]>;
+
+  /** 是否正在进行准备确认 */
+  readyCheck: CValue<boolean>;
+
+  /** 计划维护的时间 */
+  maintenance: CValue<number>;
 }
 
 /**
@@ -30,7 +45,9 @@ class CardRenderer extends Card<Props> {
         break;
       case Phase.PREPARING:
         mode = `(font)准备阶段(font)[secondary]`;
-        status = '小镇正在准备中，请耐心等待说书人开始游戏';
+        status = state.readyCheck.value
+          ? '说书人发起了准备确认\n(font)准备好后请点击「我准备好了」(font)[info]'
+          : '小镇正在准备中，请耐心等待说书人开始游戏';
         break;
       case Phase.FINISH_GOOD:
         mode = `(font)游戏结束 -(font)[secondary] (font)善良阵营胜利(font)[info]`;
@@ -55,21 +72,59 @@ class CardRenderer extends Card<Props> {
       case Phase.DAY:
         mode = `(font)白天阶段 - 广场集会(font)[secondary]`;
         status = '你和其他镇民们聚集在城镇广场\n(font)可以自由发言和讨论(font)[info]';
+        groups.push([{ text: '🤫 私聊', theme: 'warning', value: '[pl]Whisper' }]);
         break;
       case Phase.ROAMING:
         mode = `(font)白天阶段 - 自由活动(font)[secondary]`;
         status = '现在是自由活动时间\n(font)你可以前往其他地点了(font)[info]\n> 那么？要去哪里吗？';
         image = GAME.assets['banner_roam'];
-        groups.push(...LOCATION_BUTTONS);
+        groups.push(...locationButtons(state.locations.value, state.locationOccupancy.value));
         break;
     }
 
+    // 游戏开始前可以确认准备与申请换座
+    if (
+      state.phase.value === Phase.PREPARING ||
+      state.phase.value === Phase.FINISH_GOOD ||
+      state.phase.value === Phase.FINISH_BAD
+    ) {
+      const swapLeft: ActionButton = {
+        text: '⬅️ 与左边换座',
+        theme: 'secondary',
+        value: '[pl]SeatSwap|-1',
+      };
+      const swapRight: ActionButton = {
+        text: '与右边换座 ➡️',
+        theme: 'secondary',
+        value: '[pl]SeatSwap|1',
+      };
+      groups.push(
+        state.readyCheck.value
+          ? [{ text: '✋ 我准备好了', theme: 'success', value: '[pl]Ready' }, swapLeft, swapRight]
+          : [swapLeft, swapRight],
+      );
+    }
+
+    // 白天的计时倒计时
+    const timer = state.phaseTimer.value;
+    const countdown =
+      timer.end > 0 && (state.phase.value === Phase.DAY || state.phase.value === Phase.ROAMING)
+        ? timer
+        : undefined;
+
     return {
       content: JSON.stringify({
         image,
         status: `**(font)${icon} 城镇广场(font)[warning]** ${mode}\n${status}`,
         invite: state.invite.value,
         groups: groups,
+        countdown,
+        maintenance: state.maintenance.value
+          ? {
+              text: '🚧 (font)机器人即将重启维护，正在进行的游戏会在重启后恢复(font)[warning]',
+              end: state.maintenance.value,
+            }
+          : undefined,
       }),
       template_id: GAME.templates.townsquare,
     };
@@ -1,6 +1,7 @@
 import { $card, Card } from '../utils/card';
 import { GAME } from '../../bot';
-import type { ListPlayerItem } from '../session';
+import type { ExecutionBlock, ListPlayerItem } from '../session';
+import { executionInfo } from '../vote';
 import type { CValue } from '../utils/state';
 import type { ActionGroup } from '../../templates/types';
 import type { PlayersTemplateParams } from '../../templates/players';
@@ -31,6 +32,9 @@ interface Props {
 
   /** 广场人数 */
   townsquareCount: CValue<number>;
+
+  /** 处决候选 */
+  block: CValue<ExecutionBlock>;
 }
 
 /**
@@ -68,6 +72,11 @@ class CardRenderer extends Card<Props> {
       status = '当前没有进行投票';
     }
 
+    const execution = executionInfo(state.block.value);
+    if (execution) {
+      status += '\n' + execution;
+    }
+
     const transformVote = (str: string) =>
       state.blindVoting.value
         ? str.replace(/✅/, '⬛').replace(/2️⃣/, '⬛').replace(/❌/, '❓')
@@ -1,28 +1,15 @@
-import type { ActionGroup } from '../templates/types';
+import type { RoamingLocation } from './utils/locations';
 
-export const ROAMING_LOCATIONS = [
-  { name: '🏞️ 河边', theme: 'info' },
-  { name: '⛪ 教堂', theme: 'success' },
-  { name: '🍺 酒馆', theme: 'warning' },
-  { name: '🏛️ 遗迹', theme: 'primary' },
-  { name: '📚 缮写室', theme: 'warning' },
-  { name: '🌲 小树林', theme: 'primary' },
-  { name: '🏠 玩家小屋', theme: 'info', isCottage: true },
-  { name: '⛲ 城镇广场', theme: 'danger', isMain: true },
+/** 默认的自由活动地点 */
+export const DEFAULT_LOCATIONS: RoamingLocation[] = [
+  { name: '河边', emoji: '🏞️', theme: 'info' },
+  { name: '教堂', emoji: '⛪', theme: 'success' },
+  { name: '酒馆', emoji: '🍺', theme: 'warning' },
+  { name: '遗迹', emoji: '🏛️', theme: 'primary' },
+  { name: '缮写室', emoji: '📚', theme: 'warning' },
+  { name: '小树林', emoji: '🌲', theme: 'primary' },
 ];
 
-export const LOCATION_BUTTONS: ActionGroup[] = [];
-for (let i = 0; i < ROAMING_LOCATIONS.length; i += 4) {
-  const buttons = ROAMING_LOCATIONS.slice(i, i + 4).map((value, index) => {
-    return {
-      text: value.name,
-      theme: value.theme,
-      value: '[lc]' + (i + index).toString(),
-    };
-  });
-  (LOCATION_BUTTONS as any).push(buttons);
-}
-
 export const CIRCLED_NUMBERS = [
   '⓪',
   '①',
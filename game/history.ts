@@ -0,0 +1,89 @@
+import type { PlayerStatus } from './session';
+import { Phase } from './session';
+
+/** 游戏记录中事件的类型 */
+export enum HistoryType {
+  /** 阶段切换 */
+  PHASE = 0,
+  /** 发起提名 */
+  NOMINATION,
+  /** 投票结果 */
+  VOTE,
+  /** 玩家状态变化 */
+  STATUS,
+  /** 换座 */
+  SWAP,
+  /** 托梦 */
+  PRIVATE,
+  /** 处决 */
+  EXECUTION,
+  /** 私聊 */
+  WHISPER,
+}
+
+export type HistoryData =
+  | { type: HistoryType.PHASE; phase: Phase }
+  | { type: HistoryType.NOMINATION; from: string; to: string }
+  | {
+      type: HistoryType.VOTE;
+      /** 普通投票时没有提名者与被提名者 */
+      from?: string;
+      to?: string;
+      votes: number;
+      required?: number;
+      /** 是否为放逐投票 */
+      exile?: boolean;
+      voters: string[];
+    }
+  | { type: HistoryType.STATUS; player: string; status: PlayerStatus }
+  | { type: HistoryType.SWAP; players: string[] }
+  | { type: HistoryType.PRIVATE; player: string }
+  | { type: HistoryType.EXECUTION; player: string }
+  | { type: HistoryType.WHISPER; from: string; to: string };
+
+export type HistoryEvent = HistoryData & {
+  time: number;
+
+  /** 第几天（夜晚与随后的白天为同一天） */
+  day: number;
+
+  /** 是否发生在夜晚 */
+  night: boolean;
+};
+
+/** 记录的最大事件数量，防止长时间游戏占用过多空间 */
+const MAX_EVENTS = 1000;
+
+/**
+ * 游戏记录
+ *
+ * 记录一局游戏中发生的事件，游戏结束时用于生成总结
+ */
+export class GameHistory {
+  private _events: HistoryEvent[] = [];
+
+  constructor(events: HistoryEvent[] = []) {
+    this._events = events;
+  }
+
+  get events(): readonly HistoryEvent[] {
+    return this._events;
+  }
+
+  record(data: HistoryData, day: number, phase: Phase) {
+    if (this._events.length >= MAX_EVENTS) {
+      this._events.shift();
+    }
+
+    this._events.push({
+      ...data,
+      time: Date.now(),
+      day,
+      night: phase === Phase.NIGHT || phase === Phase.COTTAGE,
+    });
+  }
+
+  clear() {
+    this._events = [];
+  }
+}
@@ -0,0 +1,139 @@
+import { BOT, LOG } from '../bot';
+import { ApiMessageType } from '../lib/api';
+import { createActionCard, drainingActionCard } from '../templates/create';
+import { textCard } from '../templates/text';
+import { ROUTER } from './router';
+import { DATABASE } from './utils/database';
+import { $state } from './utils/state';
+
+/** 检查是否可以开始维护的间隔 */
+const CHECK_INTERVAL = 15 * 1000;
+
+/** 维护前额外发送提醒的剩余分钟数 */
+const REMINDERS = [10, 5, 1];
+
+/**
+ * 维护管理
+ *
+ * 暂停创建新小镇，等待所有小镇回到准备阶段或到达维护时间后关闭机器人
+ */
+class Maintenance {
+  /** 计划维护的时间，为 0 时没有计划维护 */
+  readonly deadline = $state(0);
+
+  private draining = false;
+  private timer?: NodeJS.Timeout;
+  private reminders: number[] = [];
+  private shutdownHandler: (() => void) | null = null;
+
+  /**
+   * 设置维护开始时的回调，通常为正常关闭机器人
+   */
+  onShutdown(handler: () => void) {
+    this.shutdownHandler = handler;
+  }
+
+  /** 是否暂停创建新小镇 */
+  get isDraining() {
+    return this.draining;
+  }
+
+  /**
+   * 暂停或恢复创建新小镇，会同步更新所有创建小镇的卡片
+   */
+  setDraining(draining: boolean) {
+    if (this.draining === draining) return;
+    this.draining = draining;
+    this.updateActionCards();
+  }
+
+  /**
+   * 计划维护，计划期间暂停创建新小镇
+   * @param deadline 维护时间，到达时即使仍有游戏在进行也会关闭机器人
+   */
+  schedule(deadline: number) {
+    clearInterval(this.timer);
+
+    this.deadline.set(deadline);
+    this.reminders = REMINDERS.filter((minutes) => deadline - minutes * 60000 > Date.now());
+    this.draining = true;
+    this.updateActionCards();
+
+    this.broadcast(`🚧 机器人将在 ${Math.ceil((deadline - Date.now()) / 60000)} 分钟后重启维护`);
+    this.timer = setInterval(() => this.check(), CHECK_INTERVAL);
+  }
+
+  /**
+   * 取消计划的维护，恢复创建新小镇
+   */
+  cancel() {
+    if (!this.deadline.value) return;
+
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.deadline.set(0);
+    this.reminders = [];
+    this.setDraining(false);
+
+    this.broadcast('✅ 机器人维护已取消');
+  }
+
+  /**
+   * 检查是否可以开始维护
+   */
+  private check() {
+    const deadline = this.deadline.value;
+    if (!deadline) return;
+
+    const now = Date.now();
+    const remaining = deadline - now;
+
+    // 所有小镇都不在游戏中，不用等到维护时间
+    const idle = ROUTER.listSessions().every((session) => session.isPreparing());
+    if (idle || remaining <= 0) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      LOG(idle ? '🚧 所有小镇都已结束游戏，开始维护' : '🚧 到达维护时间，开始维护');
+      this.shutdownHandler?.();
+      return;
+    }
+
+    const reminder = this.reminders[0];
+    if (reminder !== undefined && remaining <= reminder * 60000) {
+      this.reminders.shift();
+      this.broadcast(`⏰ 机器人将在 ${reminder} 分钟后重启维护`);
+    }
+  }
+
+  /**
+   * 向所有小镇的城镇广场发送维护通知
+   */
+  private broadcast(content: string) {
+    for (const session of ROUTER.listSessions()) {
+      session.renderer.sendMessageToTownsquare(
+        ApiMessageType.CARD,
+        JSON.stringify(textCard(`**${content}**\n(font)正在进行的游戏会在重启后恢复(font)[tips]`)),
+      );
+    }
+  }
+
+  /**
+   * 更新所有创建小镇的卡片，已经被删除的卡片不再记录
+   */
+  async updateActionCards() {
+    const content = JSON.stringify(
+      this.draining ? drainingActionCard(this.deadline.value) : createActionCard,
+    );
+
+    for (const messageId of DATABASE.listActionCards()) {
+      try {
+        await BOT.api.messageUpdate({ msg_id: messageId, content });
+      } catch (err) {
+        console.error(`💥 更新创建小镇卡片失败: ${messageId}`, err);
+        DATABASE.removeActionCard(messageId);
+      }
+    }
+  }
+}
+
+export const MAINTENANCE = new Maintenance();
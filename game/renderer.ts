@@ -1,9 +1,9 @@
-import { BOT, GAME } from '../bot';
+import { BOT } from '../bot';
 import { ApiChannelType, ApiMessageType, Permission, VoiceQuality } from '../lib/api';
 import { $state } from './utils/state';
 import type { Register } from './router';
+import type { GuildConfig } from '../types';
 import { UserRoles } from './utils/user-roles';
-import { reportGlobalError } from './utils/error';
 
 import TownControlCard from './cards/TownControlCard';
 import TownHeaderCard from './cards/TownHeaderCard';
@@ -11,19 +11,24 @@ import StorytellerControlCard from './cards/StorytellerControlCard';
 import TownsquareControlCard from './cards/TownsquareControlCard';
 import type { GameState } from './session';
 import type { CardState } from './utils/card';
-import { DynamicChannels } from './utils/dynamic-channels';
+import { DynamicChannels, type DynamicChannelsSnapshot } from './utils/dynamic-channels';
 import { SequentialQueue } from './utils/queue';
 import StorytellerPlayerListCard from './cards/StorytellerPlayerListCard';
 import TownsquarePlayerListCard from './cards/TownsquarePlayerListCard';
 import MessagingCard from './cards/MessagingCard';
+import NightOrderCard from './cards/NightOrderCard';
+import SpectatorGrimoireCard from './cards/SpectatorGrimoireCard';
+import { MAINTENANCE } from './maintenance';
 import { townSquareGlobalCard, townSquarePrivateCardDefault } from '../templates/messaging';
 import { UserCard } from './utils/userCard';
 import { randomTownName } from './utils/names';
+import { textCard } from '../templates/text';
 
 export enum ChannelMode {
   Everyone = 0,
   Player,
   Storyteller,
+  Spectator,
 }
 
 export enum RendererState {
@@ -33,6 +38,28 @@ export enum RendererState {
   Destroyed,
 }
 
+/** 渲染器快照，用于重启后重新关联频道与卡片 */
+export interface RendererSnapshot {
+  name: string;
+  roleId: number;
+  storytellerChannelId: string;
+  townsquareChannelId: string;
+  voiceChannelId: string;
+  spectatorChannelId?: string;
+  spectatorVoiceChannelId?: string;
+  invite: string;
+  open: boolean;
+
+  /** 卡片消息ID，顺序与卡片配置一致 */
+  cards: {
+    storyteller: string[];
+    townsquare: string[];
+    spectator?: string[];
+  };
+
+  dynamicChannels?: DynamicChannelsSnapshot;
+}
+
 /**
  * 游戏"渲染"器
  * 一个会话拥有一个渲染器
@@ -46,12 +73,15 @@ export class Renderer {
   private _storytellerChannelId = '';
   private _townsquareChannelId = '';
   private _voiceChannelId = '';
+  private _spectatorChannelId = '';
+  private _spectatorVoiceChannelId = '';
   private _userCard;
   private _dynamicChannels?: DynamicChannels;
 
   private cards: {
     storyteller: CardState<object>[];
     townsquare: CardState<object>[];
+    spectator: CardState<object>[];
   };
 
   private roleId = -1;
@@ -67,6 +97,12 @@ export class Renderer {
   get voiceChannelId() {
     return this._voiceChannelId;
   }
+  get spectatorChannelId() {
+    return this._spectatorChannelId;
+  }
+  get spectatorVoiceChannelId() {
+    return this._spectatorVoiceChannelId;
+  }
   get userCard() {
     return this._userCard;
   }
@@ -76,22 +112,31 @@ export class Renderer {
   get isOpen() {
     return this.open.value;
   }
+  get isSpectatorVoiceOpen() {
+    return this.spectatorVoiceOpen.value;
+  }
 
-  private roles = new UserRoles();
+  private roles: UserRoles;
 
   private readonly invite = $state('');
   private readonly open = $state(false);
+  private readonly spectatorVoiceOpen = $state(false);
   private readonly storytellerIdState = $state('');
-  private readonly sequentialQueue = new SequentialQueue();
+  private readonly sequentialQueue = new SequentialQueue((error) =>
+    this.register.reportError(error, '渲染器'),
+  );
 
   private cleanupCallback: (() => void) | null = null;
 
   constructor(
+    private guild: GuildConfig,
     private storytellerId: string,
     private register: Register,
     private state: GameState,
     isOpen: boolean = false,
   ) {
+    this.roles = new UserRoles(guild.guildId, (error) => register.reportError(error, '用户角色'));
+
     const townName = randomTownName();
     this.name.set(townName);
     this.storytellerIdState.set(storytellerId);
@@ -122,17 +167,41 @@ export class Renderer {
           phase: this.state.phase,
           storytellerId: this.storytellerIdState,
           busy: this.state.busy,
+          phaseTimer: this.state.phaseTimer,
+          phaseTimerAuto: this.state.phaseTimerAuto,
+          locations: this.state.locations,
+          locationOccupancy: this.state.locationOccupancy,
+          manageLocations: this.state.manageLocations,
         }),
         StorytellerPlayerListCard({
           listMode: this.state.listMode,
           phase: this.state.phase,
-          list: this.state.list,
+          list: this.state.storytellerList,
+          bag: this.state.bag,
+          day: this.state.day,
+          nominations: this.state.nominations,
+          blockRepeatNomination: this.state.blockRepeatNomination,
+          clockHand: this.state.clockHand,
+          exile: this.state.exile,
+          spectatorVoiceChannel: this.spectatorVoiceOpen,
+          spectatorBroadcast: this.state.spectatorBroadcast,
+          spectatorDelay: this.state.spectatorDelay,
+          whispers: this.state.whispers,
+          whisperTime: this.state.whisperTime,
+          channelGroups: this.state.channelGroups,
+          locationSummary: this.state.locationSummary,
+          readyCheck: this.state.readyCheck,
+          ready: this.state.ready,
+          seatRequests: this.state.seatRequests,
+          wakeQueue: this.state.wakeQueue,
+          wakeIndex: this.state.wakeIndex,
           listSelected: this.state.listSelected,
           voteDescription: this.state.voteDescription,
           voteInfo: this.state.voteInfo,
           votingStart: this.state.votingStart,
           votingEnd: this.state.votingEnd,
           townsquareCount: this.state.townsquareCount,
+          block: this.state.block,
           listArg: this.state.listArg,
         }),
         MessagingCard({
@@ -147,6 +216,11 @@ export class Renderer {
             },
           },
         }),
+        NightOrderCard({
+          phase: this.state.phase,
+          nightCount: this.state.nightCount,
+          nightOrder: this.state.nightOrder,
+        }),
       ],
 
       townsquare: [
@@ -169,6 +243,11 @@ export class Renderer {
         TownsquareControlCard({
           invite: this.invite,
           phase: this.state.phase,
+          phaseTimer: this.state.phaseTimer,
+          locations: this.state.locations,
+          locationOccupancy: this.state.locationOccupancy,
+          readyCheck: this.state.readyCheck,
+          maintenance: MAINTENANCE.deadline,
         }),
         TownsquarePlayerListCard({
           voting: this.state.voting,
@@ -179,14 +258,32 @@ export class Renderer {
           votingStart: this.state.votingStart,
           votingEnd: this.state.votingEnd,
           townsquareCount: this.state.townsquareCount,
+          block: this.state.block,
+        }),
+      ],
+
+      spectator: [
+        SpectatorGrimoireCard({
+          enabled: this.state.spectatorBroadcast,
+          delay: this.state.spectatorDelay,
+          view: this.state.spectatorView,
         }),
       ],
     };
+
+    // 卡片更新失败只影响当前会话
+    for (const card of [
+      ...this.cards.storyteller,
+      ...this.cards.townsquare,
+      ...this.cards.spectator,
+    ]) {
+      card.$onError((error) => register.reportError(error, '卡片更新'));
+    }
   }
 
   /**
    * 初始化
-   * 创建相关频道与初始消息
+   * 创建相关频道与初始消息，失败时抛出错误
    */
   async initialize() {
     // 只允许初始化一次
@@ -197,7 +294,7 @@ export class Renderer {
       // 创建游戏所需角色
       this.roleId = (
         await BOT.api.roleCreate({
-          guild_id: GAME.guildId,
+          guild_id: this.guild.guildId,
           name: this.name.value,
         })
       ).role_id;
@@ -219,23 +316,29 @@ export class Renderer {
           this._townsquareChannelId = townsquareChannel.channel.id;
           this.register.addChannel(this._townsquareChannelId);
           lateCallbacks.push(townsquareChannel.permissionCallback);
+
+          const spectatorChannel = await this.createTextChannel('👀 旁观席', ChannelMode.Spectator);
+          this._spectatorChannelId = spectatorChannel.channel.id;
+          this.register.addChannel(this._spectatorChannelId);
+          lateCallbacks.push(spectatorChannel.permissionCallback);
         })(),
 
         (async () => {
           this._voiceChannelId = (
             await BOT.api.channelCreate({
-              guild_id: GAME.guildId,
+              guild_id: this.guild.guildId,
               name: `‣ ${this.name.value}`,
               type: ApiChannelType.VOICE,
               voice_quality: VoiceQuality.HIGH,
               limit_amount: 20,
-              parent_id: GAME.roomCategoryId,
+              parent_id: this.guild.roomCategoryId,
             })
           ).id;
           this.register.addChannel(this._voiceChannelId);
 
           // 动态频道配置
           this._dynamicChannels = new DynamicChannels(
+            this.guild,
             this._voiceChannelId,
             this.storytellerId,
             this.register,
@@ -271,6 +374,11 @@ export class Renderer {
             await card.$mount(this._townsquareChannelId);
           }
         })(),
+        (async () => {
+          for (const card of this.cards.spectator) {
+            await card.$mount(this._spectatorChannelId);
+          }
+        })(),
       ]);
 
       // 为说书人赋予游戏角色与说书人角色
@@ -299,9 +407,92 @@ export class Renderer {
 
       this.rendererState = RendererState.Initialized;
     } catch (err) {
-      console.error(err);
-      // 报告全局错误，触发机器人关闭
-      reportGlobalError(err, '渲染器初始化');
+      // 初始化失败时由路由器移除会话，销毁时仍然需要清理已经创建的频道
+      if (this.rendererState === RendererState.Initializing) {
+        this.rendererState = RendererState.Initialized;
+      }
+      throw err;
+    } finally {
+      if (this.cleanupCallback) {
+        this.cleanupCallback();
+      }
+    }
+  }
+
+  /**
+   * 从快照恢复
+   * 重新关联已存在的频道与卡片消息，而不是重新创建
+   *
+   * 频道或卡片消息已不存在时会抛出错误
+   */
+  async restore(snapshot: RendererSnapshot) {
+    // 只允许初始化一次
+    if (this.rendererState !== RendererState.None) return;
+    this.rendererState = RendererState.Initializing;
+
+    try {
+      this.name.set(snapshot.name);
+      this.invite.set(snapshot.invite);
+      this.open.set(snapshot.open);
+      this.roleId = snapshot.roleId;
+
+      this._storytellerChannelId = snapshot.storytellerChannelId;
+      this._townsquareChannelId = snapshot.townsquareChannelId;
+      this._voiceChannelId = snapshot.voiceChannelId;
+      this.register.addChannel(this._storytellerChannelId);
+      this.register.addChannel(this._townsquareChannelId);
+      this.register.addChannel(this._voiceChannelId);
+
+      // 旧快照中没有旁观频道
+      this._spectatorChannelId = snapshot.spectatorChannelId ?? '';
+      this._spectatorVoiceChannelId = snapshot.spectatorVoiceChannelId ?? '';
+      if (this._spectatorChannelId) this.register.addChannel(this._spectatorChannelId);
+      if (this._spectatorVoiceChannelId) this.register.addChannel(this._spectatorVoiceChannelId);
+      this.spectatorVoiceOpen.set(!!this._spectatorVoiceChannelId);
+
+      // 动态频道配置
+      this._dynamicChannels = new DynamicChannels(
+        this.guild,
+        this._voiceChannelId,
+        this.storytellerId,
+        this.register,
+        this.roleId.toString(),
+      );
+      if (snapshot.dynamicChannels) {
+        this._dynamicChannels.restore(snapshot.dynamicChannels);
+      }
+
+      // 确认语音频道仍然存在
+      await BOT.api.channelView({ target_id: this._voiceChannelId });
+
+      // 重新关联卡片，并使用恢复后的状态重新渲染
+      // 快照之后新增的卡片会直接挂载到频道末尾
+      const attach = (cards: CardState<object>[], ids: string[], channelId: string) =>
+        Promise.all(
+          cards.map((card, index) => {
+            const id = ids[index];
+            if (!id) return card.$mount(channelId);
+            return card.$attach(id);
+          }),
+        );
+
+      await Promise.all([
+        attach(this.cards.storyteller, snapshot.cards.storyteller, this._storytellerChannelId),
+        attach(this.cards.townsquare, snapshot.cards.townsquare, this._townsquareChannelId),
+        // 旧快照中没有旁观频道，不挂载旁观卡片
+        this._spectatorChannelId
+          ? attach(this.cards.spectator, snapshot.cards.spectator ?? [], this._spectatorChannelId)
+          : Promise.resolve([]),
+      ]);
+
+      // 角色可能在离线期间被撤销，重新赋予说书人
+      this.roles.grant(this.storytellerId, this.roleId);
+
+      this.rendererState = RendererState.Initialized;
+    } catch (err) {
+      // 恢复失败时仍然允许销毁流程清理残留的频道与角色
+      this.rendererState = RendererState.Initialized;
+      throw err;
     } finally {
       if (this.cleanupCallback) {
         this.cleanupCallback();
@@ -309,6 +500,32 @@ export class Renderer {
     }
   }
 
+  /**
+   * 生成快照
+   * @returns 渲染器尚未初始化完成或已销毁时返回 null
+   */
+  snapshot(): RendererSnapshot | null {
+    if (this.rendererState !== RendererState.Initialized) return null;
+
+    return {
+      name: this.name.value,
+      roleId: this.roleId,
+      storytellerChannelId: this._storytellerChannelId,
+      townsquareChannelId: this._townsquareChannelId,
+      voiceChannelId: this._voiceChannelId,
+      spectatorChannelId: this._spectatorChannelId || undefined,
+      spectatorVoiceChannelId: this._spectatorVoiceChannelId || undefined,
+      invite: this.invite.value,
+      open: this.open.value,
+      cards: {
+        storyteller: this.cards.storyteller.map((card) => card.$id),
+        townsquare: this.cards.townsquare.map((card) => card.$id),
+        spectator: this.cards.spectator.map((card) => card.$id),
+      },
+      dynamicChannels: this._dynamicChannels?.snapshot(),
+    };
+  }
+
   setHelperPermission(userId: string) {
     this.sequentialQueue.push(async () => {
       const result = await Promise.allSettled([
@@ -364,10 +581,10 @@ export class Renderer {
 
   private async createTextChannel(name: string, mode: ChannelMode) {
     const channel = await BOT.api.channelCreate({
-      guild_id: GAME.guildId,
+      guild_id: this.guild.guildId,
       name: name,
       type: ApiChannelType.TEXT,
-      parent_id: GAME.gameCategoryId,
+      parent_id: this.guild.gameCategoryId,
     });
 
     let permissionCallback = async () => {};
@@ -398,6 +615,16 @@ export class Renderer {
           }
         });
       };
+    } else if (mode == ChannelMode.Spectator) {
+      permissionCallback = async () => {
+        // 允许会话中的用户查看，玩家在加入游戏时会被单独禁止
+        await BOT.api.channelRoleUpdate({
+          channel_id: channel.id,
+          type: 'role_id',
+          value: this.roleId.toString(),
+          allow: Permission.VIEW_CHANNELS | Permission.SEND_MESSAGES,
+        });
+      };
     } else if (mode == ChannelMode.Storyteller) {
       permissionCallback = async () => {
         // 仅允许说书人查看与发消息
@@ -412,6 +639,120 @@ export class Renderer {
     return { channel, permissionCallback };
   }
 
+  /**
+   * 设置用户能否进入旁观频道
+   * 玩家不能查看旁观频道，防止旁观者的讨论被玩家看到
+   */
+  setSpectatorAccess(userId: string, allowed: boolean) {
+    this.sequentialQueue.push(async () => {
+      const channels = [this._spectatorChannelId, this._spectatorVoiceChannelId].filter(
+        (channel) => !!channel,
+      );
+
+      const result = await Promise.allSettled(
+        channels.map((channel) =>
+          allowed
+            ? BOT.api.channelRoleDelete({
+                channel_id: channel,
+                type: 'user_id',
+                value: userId,
+              })
+            : BOT.api.channelRoleUpdate({
+                channel_id: channel,
+                type: 'user_id',
+                value: userId,
+                deny: Permission.VIEW_CHANNELS | Permission.CONNECT_VOICE,
+              }),
+        ),
+      );
+
+      result.forEach((result) => {
+        if (result.status == 'rejected') {
+          console.error(result.reason);
+        }
+      });
+    });
+  }
+
+  /**
+   * 创建旁观语音频道
+   * @param players 不能进入旁观频道的玩家
+   */
+  openSpectatorVoiceChannel(players: string[]) {
+    if (this.spectatorVoiceOpen.value) return;
+    this.spectatorVoiceOpen.set(true);
+
+    this.sequentialQueue.push(async () => {
+      if (this._spectatorVoiceChannelId) return;
+
+      try {
+        const channel = await BOT.api.channelCreate({
+          guild_id: this.guild.guildId,
+          name: `👀 旁观席 ‣ ${this.name.value}`,
+          type: ApiChannelType.VOICE,
+          voice_quality: VoiceQuality.HIGH,
+          limit_amount: 20,
+          parent_id: this.guild.roomCategoryId,
+        });
+        this._spectatorVoiceChannelId = channel.id;
+        this.register.addChannel(channel.id);
+
+        await Promise.allSettled([
+          BOT.api.channelRoleUpdate({
+            channel_id: channel.id,
+            type: 'role_id',
+            value: this.roleId.toString(),
+            allow: Permission.VIEW_CHANNELS | Permission.CONNECT_VOICE,
+          }),
+          ...players.map((userId) =>
+            BOT.api.channelRoleUpdate({
+              channel_id: channel.id,
+              type: 'user_id',
+              value: userId,
+              deny: Permission.VIEW_CHANNELS | Permission.CONNECT_VOICE,
+            }),
+          ),
+        ]);
+      } catch (err) {
+        console.error(err);
+        this.spectatorVoiceOpen.set(false);
+      }
+    });
+  }
+
+  /**
+   * 删除旁观语音频道，频道中的用户会被移动到主语音频道
+   */
+  closeSpectatorVoiceChannel() {
+    if (!this.spectatorVoiceOpen.value) return;
+    this.spectatorVoiceOpen.set(false);
+
+    this.sequentialQueue.push(async () => {
+      const channelId = this._spectatorVoiceChannelId;
+      if (!channelId) return;
+
+      try {
+        const users = await BOT.api.channelUserList(channelId);
+        if (users.length > 0) {
+          await BOT.api.channelMoveUser(
+            this._voiceChannelId,
+            users.map((user) => user.id),
+          );
+        }
+      } catch {
+        // 无视移动用户报错
+      }
+
+      this._spectatorVoiceChannelId = '';
+      this.register.removeChannel(channelId);
+      try {
+        await BOT.api.channelDelete(channelId);
+      } catch (err) {
+        console.error(err);
+      }
+    });
+  }
+
   /** 为用户授予游戏角色 */
   grantUserRole(userId: string) {
     if (this.roleId == -1) return;
@@ -452,6 +793,19 @@ export class Renderer {
     });
   }
 
+  /**
+   * 向说书人频道发送消息
+   */
+  sendMessageToStoryteller(type: ApiMessageType, content: string) {
+    this.sequentialQueue.push(async () => {
+      await BOT.api.messageCreate({
+        target_id: this._storytellerChannelId,
+        type: type,
+        content: content,
+      });
+    });
+  }
+
   /**
    * 向主语音频道发送消息
    */
@@ -466,6 +820,32 @@ export class Renderer {
     });
   }
 
+  /**
+   * 向频道中的指定用户发送临时消息
+   */
+  sendTemporaryMessage(channelId: string, userId: string, content: string) {
+    this.sendTemporaryCard(channelId, userId, textCard(content));
+  }
+
+  /**
+   * 向频道中的指定用户发送临时卡片
+   */
+  sendTemporaryCard(channelId: string, userId: string, card: any[]) {
+    this.sequentialQueue.push(async () => {
+      try {
+        await BOT.api.messageCreate({
+          target_id: channelId,
+          type: ApiMessageType.CARD,
+          content: JSON.stringify(card),
+          temp_target_id: userId,
+        });
+      } catch (err) {
+        // 临时消息只是提示，发送失败不用管
+        console.error(err);
+      }
+    });
+  }
+
   /**
    * 删除一条消息
    */
@@ -479,6 +859,29 @@ export class Renderer {
     });
   }
 
+  /** 挂起渲染器，停止所有更新，但保留角色与频道以便重启后恢复 */
+  async suspend() {
+    const state = this.rendererState;
+    this.rendererState = RendererState.Destroyed;
+
+    if (state !== RendererState.Initialized) return;
+
+    // 等待队列中剩余的任务完成
+    await this.sequentialQueue.destroy(false);
+
+    await Promise.allSettled([
+      ...this.cards.storyteller.map((card) => card.$destroy()),
+      ...this.cards.townsquare.map((card) => card.$destroy()),
+      ...this.cards.spectator.map((card) => card.$destroy()),
+    ]);
+
+    if (this._dynamicChannels) {
+      await this._dynamicChannels.suspend();
+    }
+
+    await this.roles.destroy();
+  }
+
   /** 销毁渲染器，这会删除所有相关的角色与频道 */
   async destroy() {
     const state = this.rendererState;
@@ -510,6 +913,7 @@ export class Renderer {
     await Promise.allSettled([
       ...this.cards.storyteller.map((card) => card.$destroy()),
       ...this.cards.townsquare.map((card) => card.$destroy()),
+      ...this.cards.spectator.map((card) => card.$destroy()),
     ]);
 
     // 销毁所有动态频道
@@ -522,6 +926,8 @@ export class Renderer {
       this._storytellerChannelId,
       this._townsquareChannelId,
       this._voiceChannelId,
+      this._spectatorChannelId,
+      this._spectatorVoiceChannelId,
     ].filter((channel) => !!channel);
 
     channels.forEach((channel) => {
@@ -543,7 +949,7 @@ export class Renderer {
     // 删除生成的角色
     try {
       await BOT.api.roleDelete({
-        guild_id: GAME.guildId,
+        guild_id: this.guild.guildId,
         role_id: this.roleId,
       });
     } catch (err) {
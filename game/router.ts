@@ -1,5 +1,7 @@
-import { BOT } from '../bot';
-import { Session } from './session';
+import { BOT, DEFAULT_GUILD_ID, GUILDS, LOG } from '../bot';
+import type { GuildConfig } from '../types';
+import { Session, type SessionSnapshot } from './session';
+import { DATABASE } from './utils/database';
 
 /** 回话处理回调 */
 export interface Register {
@@ -10,13 +12,23 @@ export interface Register {
   kick: (userId: string) => void;
   destroy: () => void;
   transferSession: (newStorytellerId: string, activeUsers: Map<string, string>) => void;
+  reportError: (error: unknown, context?: string) => void;
 }
 
 interface SessionData {
   users: Set<string>;
   channels: Set<string>;
+
+  /** 最近发生错误的时间 */
+  errors: number[];
 }
 
+/** 统计会话错误的时间窗口 */
+const SESSION_ERROR_WINDOW = 5 * 60 * 1000;
+
+/** 时间窗口内的错误达到该数量时，会话会被标记为故障 */
+const MAX_SESSION_ERRORS = 5;
+
 /**
  * 游戏会话管理
  * 玩家是否属于一个 Session，即权限管理由 SessionRegister 负责
@@ -28,10 +40,14 @@ export class Router {
 
   private destroyed = false;
 
+  /** 定期保存会话快照，防止进程意外退出 */
+  private saveTimer = setInterval(() => this.saveSessions(), 60000);
+
   /**
    * 创建新会话
+   * @param guild 会话所在的服务器
    */
-  async createSession(storyteller: string, isOpen: boolean = false) {
+  async createSession(guild: GuildConfig, storyteller: string, isOpen: boolean = false) {
     if (this.destroyed) return null;
 
     if (this.userMap.has(storyteller)) {
@@ -44,10 +60,41 @@ export class Router {
     const data = {
       users: new Set(),
       channels: new Set(),
+      errors: [],
     } satisfies SessionData;
 
-    const session = new Session(storyteller, {
+    const session: Session = new Session(
+      guild,
+      storyteller,
+      this.createRegister(data, () => session),
+      isOpen,
+    );
+
+    // 说书人始终属于其创建的会话
+    data.users.add(storyteller);
+    this.userMap.set(storyteller, session);
+
+    this.sessions.set(session, data);
+
+    try {
+      await session.renderer.initialize();
+    } catch (err) {
+      console.error(`💥 创建会话失败: ${storyteller}`, err);
+      LOG(`💥 创建小镇失败：${err instanceof Error ? err.message : String(err)}`);
+      this.removeSession(session);
+      return null;
+    }
+
+    return { session, isNew: true };
+  }
+
+  /**
+   * 创建会话回调
+   */
+  private createRegister(data: SessionData, getSession: () => Session): Register {
+    return {
       addChannel: (channel) => {
+        const session = getSession();
         if (!this.sessions.has(session)) {
           return null;
         }
@@ -60,6 +107,7 @@ export class Router {
         data.channels.add(channel);
       },
       removeChannel: (channel) => {
+        const session = getSession();
         if (!this.sessions.has(session)) {
           return null;
         }
@@ -71,34 +119,162 @@ export class Router {
         data.channels.delete(channel);
       },
       isUserJoined: (user) => {
-        if (!this.sessions.has(session)) {
+        if (!this.sessions.has(getSession())) {
           return false;
         }
         return data.users.has(user);
       },
       destroy: () => {
-        this.removeSession(session);
+        this.removeSession(getSession());
       },
       getJoinedPlayers: () => {
         return [...data.users.values()];
       },
       kick: (user) => {
-        this.kick(user, session);
+        this.kick(user, getSession());
       },
       transferSession: (newStorytellerId, activeUsers) => {
-        this.handleTransferSession(session, newStorytellerId, activeUsers);
+        this.handleTransferSession(getSession(), newStorytellerId, activeUsers);
+      },
+      reportError: (error, context) => {
+        this.reportSessionError(getSession(), error, context);
       },
-    }, isOpen);
+    };
+  }
 
-    // 说书人始终属于其创建的会话
-    data.users.add(storyteller);
-    this.userMap.set(storyteller, session);
+  /**
+   * 从快照恢复会话
+   * 恢复失败时会尝试清理快照中残留的频道
+   */
+  private async restoreSession(snapshot: SessionSnapshot) {
+    if (this.destroyed) return null;
+
+    // 说书人已经在其他会话中了，不再恢复
+    if (this.userMap.has(snapshot.storytellerId)) {
+      DATABASE.remove(snapshot.storytellerId);
+      return null;
+    }
+
+    // 机器人已经不再服务会话所在的服务器
+    const guildId = snapshot.guildId ?? DEFAULT_GUILD_ID;
+    const guild = guildId ? GUILDS.get(guildId) : undefined;
+    if (!guild) {
+      console.error(`💥 恢复会话失败，服务器不可用: ${snapshot.storytellerId}`);
+      DATABASE.remove(snapshot.storytellerId);
+      return null;
+    }
+
+    const data = {
+      users: new Set<string>(),
+      channels: new Set<string>(),
+      errors: [] as number[],
+    } satisfies SessionData;
+
+    // 用户需要在创建会话前加入，以便恢复玩家列表
+    for (const user of snapshot.users) {
+      if (!this.userMap.has(user)) {
+        data.users.add(user);
+      }
+    }
+    data.users.add(snapshot.storytellerId);
 
+    const session: Session = new Session(
+      guild,
+      snapshot.storytellerId,
+      this.createRegister(data, () => session),
+      snapshot.renderer.open,
+      snapshot,
+    );
+
+    for (const user of data.users) {
+      this.userMap.set(user, session);
+    }
     this.sessions.set(session, data);
 
-    await session.renderer.initialize();
+    try {
+      await session.renderer.restore(snapshot.renderer);
+    } catch (err) {
+      console.error(`💥 恢复会话失败: ${snapshot.storytellerId}`, err);
+      this.removeSession(session);
+      return null;
+    }
 
-    return { session, isNew: true };
+    for (const user of data.users) {
+      session.renderer.grantUserRole(user);
+    }
+
+    // 同步离线期间仍在语音频道中的用户
+    const voiceChannels = [
+      session.renderer.voiceChannelId,
+      ...(session.renderer.spectatorVoiceChannelId
+        ? [session.renderer.spectatorVoiceChannelId]
+        : []),
+      ...(session.renderer.dynamicChannels?.getCreatedChannels() ?? []),
+    ];
+    for (const channel of voiceChannels) {
+      try {
+        const users = await BOT.api.channelUserList(channel);
+        for (const user of users) {
+          this.systemUserJoinVoiceChannel(user.id, channel);
+        }
+      } catch (err) {
+        console.error(err);
+      }
+    }
+
+    return session;
+  }
+
+  /**
+   * 恢复所有保存的会话
+   * @returns 成功恢复的会话数量
+   */
+  async restore() {
+    let count = 0;
+    for (const snapshot of DATABASE.list()) {
+      const session = await this.restoreSession(snapshot);
+      if (session) count++;
+    }
+    return count;
+  }
+
+  /**
+   * 保存所有会话快照
+   */
+  saveSessions() {
+    for (const session of this.sessions.keys()) {
+      const snapshot = session.snapshot();
+      try {
+        if (snapshot) {
+          DATABASE.save(snapshot);
+        } else {
+          DATABASE.remove(session.storytellerId);
+        }
+      } catch (err) {
+        console.error(err);
+      }
+    }
+  }
+
+  /**
+   * 报告会话中发生的错误
+   * 错误只影响发生错误的会话，短时间内错误过多时会话会被标记为故障
+   */
+  reportSessionError(session: Session, error: unknown, context?: string) {
+    const data = this.sessions.get(session);
+    if (!data) return;
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`💥 会话错误${context ? ` (${context})` : ''}: ${session.storytellerId}`, error);
+
+    const now = Date.now();
+    data.errors = data.errors.filter((time) => now - time < SESSION_ERROR_WINDOW);
+    data.errors.push(now);
+
+    if (data.errors.length >= MAX_SESSION_ERRORS && !session.isBroken) {
+      session.markBroken(data.errors.length);
+      LOG(`💥 小镇发生故障 (met)${session.storytellerId}(met)：${message}`);
+    }
   }
 
   /**
@@ -147,6 +323,16 @@ export class Router {
     session.notifyUserLeave(userId);
   }
 
+  /**
+   * 列出所有会话
+   * @param guildId 只列出指定服务器的会话
+   */
+  listSessions(guildId?: string) {
+    return [...this.sessions.keys()].filter(
+      (session) => !guildId || session.guild.guildId === guildId,
+    );
+  }
+
   /**
    * 根据频道ID获取会话
    */
@@ -174,6 +360,7 @@ export class Router {
 
     // 销毁会话
     session.destroy();
+    DATABASE.remove(session.storytellerId);
 
     for (const user of data.users) {
       this.userMap.delete(user);
@@ -184,6 +371,17 @@ export class Router {
     this.sessions.delete(session);
   }
 
+  /**
+   * 移除服务器中的所有会话，用于机器人退出服务器时
+   */
+  removeGuild(guildId: string) {
+    for (const session of [...this.sessions.keys()]) {
+      if (session.guild.guildId === guildId) {
+        this.removeSession(session);
+      }
+    }
+  }
+
   /**
    * 用户加入语音频道
    */
@@ -266,6 +464,29 @@ export class Router {
     this.kick(user, userSession);
   }
 
+  /**
+   * 说书人选择继续故障的会话
+   */
+  actionBrokenResume(user: string, channel: string) {
+    const session = this.getSessionByChannelId(channel);
+    if (!session || !session.isBroken || session.storytellerId !== user) return;
+
+    const data = this.sessions.get(session);
+    if (data) data.errors = [];
+
+    session.resume();
+  }
+
+  /**
+   * 说书人选择拆除故障的会话
+   */
+  actionBrokenDelete(user: string, channel: string) {
+    const session = this.getSessionByChannelId(channel);
+    if (!session || !session.isBroken || session.storytellerId !== user) return;
+
+    this.removeSession(session);
+  }
+
   /**
    * 处理说书人转移
    */
@@ -283,7 +504,7 @@ export class Router {
     }
 
     // 为新说书人创建新会话
-    const result = await this.createSession(newStorytellerId);
+    const result = await this.createSession(oldSession.guild, newStorytellerId);
     if (!result) return;
 
     const { session: newSession } = result;
@@ -303,6 +524,22 @@ export class Router {
     oldSession.destroy();
   }
 
+  /**
+   * 挂起所有会话，保存快照后停止处理，频道会被保留以便重启后恢复
+   */
+  async suspend() {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    clearInterval(this.saveTimer);
+
+    this.saveSessions();
+
+    for (const session of this.sessions.keys()) {
+      await session.suspend();
+    }
+  }
+
   /**
    * 销毁所有会话
    */
@@ -310,9 +547,11 @@ export class Router {
     if (this.destroyed) return;
 
     this.destroyed = true;
+    clearInterval(this.saveTimer);
 
     for (const session of this.sessions.keys()) {
       await session.destroy();
+      DATABASE.remove(session.storytellerId);
     }
   }
 }
@@ -1,9 +1,10 @@
 import type { Register } from './router';
-import { Renderer } from './renderer';
+import { Renderer, type RendererSnapshot } from './renderer';
 import { $array, $state, CValue, type CArray } from './utils/state';
-import { CIRCLED_NUMBERS, ROAMING_LOCATIONS } from './consts';
+import { CIRCLED_NUMBERS, DEFAULT_LOCATIONS } from './consts';
 import { ApiMessageType } from '../lib/api';
 import { textCard } from '../templates/text';
+import { brokenCard } from '../templates/broken';
 import { MUTES } from './utils/mutes';
 import {
   globalMessagingCard,
@@ -14,6 +15,43 @@ import { MessageType, type TextMessageEvent } from '../lib/events';
 import { imageModule, markdownModule, textModule } from '../templates/modules';
 import { BOT } from '../bot';
 import { VoteManager } from './vote';
+import { PhaseTimer } from './timer';
+import {
+  COTTAGE_LOCATION,
+  MAIN_LOCATION,
+  MAX_CAPACITY,
+  locationChannelName,
+  parseCapacity,
+  parseLocations,
+  type RoamingLocation,
+} from './utils/locations';
+import {
+  findCharacter,
+  findRole,
+  isEvilTeam,
+  toCharacter,
+  type GrimoireCharacter,
+} from './utils/characters';
+import { buildBag, shuffle } from './utils/bag';
+import { buildNightOrder, type NightOrderItem } from './utils/night-order';
+import { GameHistory, HistoryType, type HistoryData, type HistoryEvent } from './history';
+import { summaryCard } from '../templates/summary';
+import type { Role } from '../scripts/validator';
+import { loadScriptFromMessage, type SessionScript } from './utils/script';
+import { scriptCard } from '../templates/script';
+import { whisperTargetCard } from '../templates/whisper';
+import { COMMAND_HELP, parseCommand, parseSeat, type StorytellerCommand } from './utils/commands';
+import { MAX_BROADCAST_PRIVATES, SpectatorBroadcast, type SpectatorView } from './broadcast';
+import type { GuildConfig } from '../types';
+
+/** 说书人列表中备注预览的最大长度 */
+const NOTE_PREVIEW_LENGTH = 12;
+
+/** 每名玩家最多可以添加的备注数量 */
+const MAX_NOTES = 10;
+
+/** 自由活动时汇总位置变化的间隔 */
+const LOCATION_SUMMARY_INTERVAL = 60 * 1000;
 
 /**
  * Deep comparison utility for arrays and objects
@@ -78,6 +116,30 @@ export enum Phase {
   ROAMING,
 }
 
+/** 提名投票的时钟指针状态 */
+export enum ClockHand {
+  /** 未开始或普通投票 */
+  NONE = 0,
+  /** 正在转动 */
+  RUNNING,
+  /** 已暂停 */
+  PAUSED,
+  /** 已转完一圈 */
+  FINISHED,
+}
+
+/** 处决候选 */
+export interface ExecutionBlock {
+  /** 即将被处决的玩家，平票时为 null */
+  nominee: string | null;
+
+  /** 最高票数 */
+  votes: number;
+
+  /** 是否平票 */
+  tied: boolean;
+}
+
 export enum PlayerStatus {
   /** 存活 */
   ALIVE = 0,
@@ -114,6 +176,53 @@ export enum ListMode {
   VOTING,
   /** 换说书人 */
   TRANSFER,
+  /** 魔典 */
+  GRIMOIRE,
+  /** 发牌 */
+  DEAL,
+  /** 私聊 */
+  WHISPER,
+  /** 巡视 */
+  EAVESDROP,
+  /** 唤醒队列 */
+  WAKE,
+  /** 备注 */
+  NOTES,
+  /** 准备确认 */
+  READY,
+  /** 投票规则 */
+  VOTE_RULE,
+}
+
+/** 玩家的投票规则，由说书人根据角色能力设置 */
+export enum VoteModifier {
+  /** 正常 */
+  NORMAL = 0,
+  /** 票数翻倍 */
+  DOUBLE,
+  /** 不能投票 */
+  NO_VOTE,
+  /** 只能使用一次投票标记，投票后失去投票权 */
+  TOKEN_ONLY,
+}
+
+export enum Alignment {
+  /** 善良 */
+  GOOD = 0,
+  /** 邪恶 */
+  EVIL,
+}
+
+/** 语音频道中的用户分组 */
+export interface ChannelGroup {
+  /** 频道ID */
+  id: string;
+
+  /** 频道名称 */
+  name: string;
+
+  /** 频道中的用户 */
+  users: string[];
 }
 
 export interface ListPlayerItem {
@@ -145,9 +254,90 @@ export interface GameState {
   /** 玩家列表 */
   list: CValue<ListPlayerItem[]>;
 
+  /** （说书人）玩家列表，包含魔典等仅说书人可见的信息 */
+  storytellerList: CValue<ListPlayerItem[]>;
+
   /** 列表选择状态 */
   listSelected: CArray<string>;
 
+  /** （说书人）发牌用的角色袋 */
+  bag: CValue<Role[]>;
+
+  /** 当前是第几个夜晚 */
+  nightCount: CValue<number>;
+
+  /** 当前是第几天 */
+  day: CValue<number>;
+
+  /** 今天已经发起过提名与被提名过的玩家 */
+  nominations: CValue<{ nominators: string[]; nominees: string[] }>;
+
+  /** 是否禁止重复提名，否则只提醒说书人 */
+  blockRepeatNomination: CValue<boolean>;
+
+  /** 今天的处决候选 */
+  block: CValue<ExecutionBlock>;
+
+  /** 提名投票的时钟指针状态 */
+  clockHand: CValue<ClockHand>;
+
+  /** 是否为放逐投票（旅行者） */
+  exile: CValue<boolean>;
+
+  /** 阶段计时，未计时时均为 0 */
+  phaseTimer: CValue<{ start: number; end: number }>;
+
+  /** 自由活动计时结束后是否自动回到广场集会 */
+  phaseTimerAuto: CValue<boolean>;
+
+  /** 自由活动地点 */
+  locations: CValue<RoamingLocation[]>;
+
+  /** 各地点的人数（不包括说书人） */
+  locationOccupancy: CValue<number[]>;
+
+  /** （说书人）是否正在管理地点 */
+  manageLocations: CValue<boolean>;
+
+  /** 玩家的私聊请求 */
+  whispers: CValue<{ from: string; to: string }[]>;
+
+  /** 私聊时长（秒） */
+  whisperTime: CValue<number>;
+
+  /** （说书人）按语音频道分组的用户 */
+  channelGroups: CValue<ChannelGroup[]>;
+
+  /** （说书人）是否定时汇总自由活动时的位置变化 */
+  locationSummary: CValue<boolean>;
+
+  /** 是否正在进行准备确认 */
+  readyCheck: CValue<boolean>;
+
+  /** 已经准备好的玩家 */
+  ready: CValue<string[]>;
+
+  /** 玩家的换座请求 */
+  seatRequests: CValue<{ from: string; to: string }[]>;
+
+  /** 是否开启旁观者魔典直播 */
+  spectatorBroadcast: CValue<boolean>;
+
+  /** 魔典直播的延迟（秒） */
+  spectatorDelay: CValue<number>;
+
+  /** 旁观者看到的延迟魔典画面 */
+  spectatorView: CValue<SpectatorView | null>;
+
+  /** （说书人）夜晚唤醒队列 */
+  wakeQueue: CValue<string[]>;
+
+  /** （说书人）唤醒队列中正在唤醒的位置，未开始时为 -1 */
+  wakeIndex: CValue<number>;
+
+  /** （说书人）夜晚行动顺序 */
+  nightOrder: CValue<NightOrderItem[]>;
+
   /** 列表参数 见 StorytellerListCard */
   listArg: CValue<number>;
 
@@ -196,6 +386,55 @@ export interface PlayerState {
     count: number;
     status: PlayerVoteStatus;
   };
+
+  /** 魔典：分配的角色 */
+  character?: GrimoireCharacter;
+
+  /** 魔典：阵营 */
+  alignment?: Alignment;
+
+  /** 魔典：提示标记 */
+  reminders: string[];
+
+  /** 投票规则 */
+  voteModifier: VoteModifier;
+
+  /** 说书人的备注，只在说书人列表中显示 */
+  notes: string[];
+}
+
+/** 会话快照，用于重启后恢复会话 */
+export interface SessionSnapshot {
+  storytellerId: string;
+
+  /** 会话所在的服务器，旧版本快照中没有 */
+  guildId?: string;
+
+  /** 属于会话的用户 */
+  users: string[];
+
+  renderer: RendererSnapshot;
+  phase: Phase;
+  players: PlayerState[];
+  helpers: string[];
+  mutes: string[];
+  greeted: string[];
+  spectatorVoice: boolean;
+  userInfoCards: [string, { seq: number; card: any[] }][];
+  townsquareCards: any[];
+  script?: SessionScript | null;
+  nightCount?: number;
+  nightDone?: string[];
+  history?: HistoryEvent[];
+  day?: number;
+  nominations?: { nominators: string[]; nominees: string[] };
+  blockRepeatNomination?: boolean;
+  block?: ExecutionBlock;
+  phaseTimer?: { start: number; end: number };
+  phaseTimerAuto?: boolean;
+  locations?: RoamingLocation[];
+  spectatorBroadcast?: boolean;
+  spectatorDelay?: number;
 }
 
 /**
@@ -208,7 +447,34 @@ export class Session {
     voting: $state(false),
     blindVoting: $state(false),
     list: $state([]),
+    storytellerList: $state([]),
     listSelected: $array([]),
+    bag: $state([]),
+    nightCount: $state(0),
+    day: $state(0),
+    nominations: $state({ nominators: [], nominees: [] }),
+    blockRepeatNomination: $state(false),
+    block: $state({ nominee: null, votes: 0, tied: false }),
+    clockHand: $state(ClockHand.NONE),
+    exile: $state(false),
+    phaseTimer: $state({ start: 0, end: 0 }),
+    phaseTimerAuto: $state(false),
+    locations: $state(DEFAULT_LOCATIONS),
+    locationOccupancy: $state([]),
+    manageLocations: $state(false),
+    whispers: $state([]),
+    whisperTime: $state(120),
+    channelGroups: $state([]),
+    locationSummary: $state(true),
+    readyCheck: $state(false),
+    ready: $state([]),
+    seatRequests: $state([]),
+    spectatorBroadcast: $state(false),
+    spectatorDelay: $state(180),
+    spectatorView: $state<SpectatorView | null>(null),
+    wakeQueue: $state([]),
+    wakeIndex: $state(-1),
+    nightOrder: $state([]),
     voteDescription: $state(''),
     voteInfo: $state({
       count: '',
@@ -232,9 +498,31 @@ export class Session {
   private userInfoCards = new Map<string, { seq: number; card: any[] }>();
   private helperSet = new Set<string>();
 
+  /** 当前加载的剧本 */
+  private script: SessionScript | null = null;
+
+  /** 今晚已经完成的行动 */
+  private nightDone = new Set<string>();
+
+  /** 游戏记录 */
+  private history = new GameHistory();
+
   /** 投票管理 */
   private readonly vote = new VoteManager(this.players, this.state, () => this.updatePlayerList());
 
+  /** 阶段计时 */
+  private readonly timer = new PhaseTimer(
+    this.state,
+    () => this.phaseTimerWarning(),
+    () => this.phaseTimerExpire(),
+  );
+
+  /** 旁观者魔典直播 */
+  private readonly broadcast = new SpectatorBroadcast(this.state);
+
+  /** 最近的托梦，用于魔典直播 */
+  private privateLog: { to: string; modules: any[] }[] = [];
+
   /** 是否允许旁观者在游戏过程中发言 */
   private spectatorVoice = false;
 
@@ -244,23 +532,124 @@ export class Session {
   /** 禁言集合 */
   private muteSet = new Set<string>();
 
+  public readonly guild: GuildConfig;
   public readonly storytellerId: string;
   public readonly renderer: Renderer;
 
-  constructor(storytellerId: string, register: Register, isOpen: boolean = false) {
+  constructor(
+    guild: GuildConfig,
+    storytellerId: string,
+    register: Register,
+    isOpen: boolean = false,
+    snapshot?: SessionSnapshot,
+  ) {
+    this.guild = guild;
     this.storytellerId = storytellerId;
-    this.renderer = new Renderer(storytellerId, register, this.state, isOpen);
+    this.renderer = new Renderer(guild, storytellerId, register, this.state, isOpen);
     this.register = register;
 
+    if (snapshot) {
+      this.restore(snapshot);
+    }
+
     // 初始化完成后进入等待说书人状态
     this.updateMessagingCard();
-    this.state.phase.set(Phase.WAITING_FOR_STORYTELLER);
+    if (!snapshot) {
+      this.state.phase.set(Phase.WAITING_FOR_STORYTELLER);
+    }
 
     // 给说书人 180 秒时间加入会话，不加入的话会自动销毁
     this.setUserInactivityTimer(this.storytellerId);
     this.updatePlayerList();
   }
 
+  /**
+   * 从快照中恢复游戏状态
+   * 投票与列表模式不会恢复，恢复后列表回到状态模式
+   */
+  private restore(snapshot: SessionSnapshot) {
+    for (const player of snapshot.players) {
+      this.players.push({
+        ...player,
+        reminders: player.reminders ?? [],
+        voteModifier: player.voteModifier ?? VoteModifier.NORMAL,
+        notes: player.notes ?? [],
+        vote: {
+          count: 0,
+          status: PlayerVoteStatus.NONE,
+        },
+      });
+    }
+
+    this.helperSet = new Set(snapshot.helpers);
+    this.muteSet = new Set(snapshot.mutes);
+    this.greeted = new Set(snapshot.greeted);
+    this.spectatorVoice = snapshot.spectatorVoice;
+    this.userInfoCards = new Map(snapshot.userInfoCards);
+    this.state.townsquareCards.push(...snapshot.townsquareCards);
+    this.script = snapshot.script ?? null;
+    this.state.nightCount.set(snapshot.nightCount ?? 0);
+    this.nightDone = new Set(snapshot.nightDone);
+    this.history = new GameHistory(snapshot.history);
+    this.state.day.set(snapshot.day ?? 0);
+    this.state.nominations.set(snapshot.nominations ?? { nominators: [], nominees: [] });
+    this.state.blockRepeatNomination.set(snapshot.blockRepeatNomination ?? false);
+    if (snapshot.block) this.state.block.set(snapshot.block);
+    this.state.phaseTimerAuto.set(snapshot.phaseTimerAuto ?? false);
+    this.state.locations.set(snapshot.locations ?? DEFAULT_LOCATIONS);
+    this.state.spectatorBroadcast.set(snapshot.spectatorBroadcast ?? false);
+    this.state.spectatorDelay.set(snapshot.spectatorDelay ?? 180);
+    this.state.phase.set(snapshot.phase);
+    if (snapshot.phaseTimer) this.timer.restore(snapshot.phaseTimer);
+
+    // 恢复自由活动中的位置汇总
+    if (snapshot.phase === Phase.ROAMING) this.startLocationSummary();
+  }
+
+  /**
+   * 生成会话快照
+   * @returns 会话已销毁或尚未初始化完成时返回 null
+   */
+  snapshot(): SessionSnapshot | null {
+    if (this.destroyed) return null;
+
+    const renderer = this.renderer.snapshot();
+    if (!renderer) return null;
+
+    return {
+      storytellerId: this.storytellerId,
+      guildId: this.guild.guildId,
+      users: this.register.getJoinedPlayers(),
+      renderer,
+      phase: this.state.phase.value,
+      players: this.players.map((p) => ({
+        ...p,
+        vote: { ...p.vote },
+        reminders: [...p.reminders],
+        notes: [...p.notes],
+      })),
+      helpers: [...this.helperSet],
+      mutes: [...this.muteSet],
+      greeted: [...this.greeted],
+      spectatorVoice: this.spectatorVoice,
+      userInfoCards: [...this.userInfoCards.entries()],
+      townsquareCards: [...this.state.townsquareCards],
+      script: this.script,
+      nightCount: this.state.nightCount.value,
+      nightDone: [...this.nightDone],
+      history: [...this.history.events],
+      day: this.state.day.value,
+      nominations: this.state.nominations.value,
+      blockRepeatNomination: this.state.blockRepeatNomination.value,
+      block: this.state.block.value,
+      phaseTimer: this.state.phaseTimer.value,
+      phaseTimerAuto: this.state.phaseTimerAuto.value,
+      locations: this.state.locations.value,
+      spectatorBroadcast: this.state.spectatorBroadcast.value,
+      spectatorDelay: this.state.spectatorDelay.value,
+    };
+  }
+
   /**
    * 目前在语音频道活跃的玩家
    *
@@ -289,6 +678,11 @@ export class Session {
    */
   private locked = false;
 
+  /**
+   * 会话故障状态，错误过多时会话会锁定，直到说书人选择继续
+   */
+  private broken = false;
+
   /**
    * 当前是否为指定状态
    * @param phases 查询的状态
@@ -316,6 +710,57 @@ export class Session {
     this.state.busy.set(false);
   }
 
+  /**
+   * 当前游戏阶段
+   */
+  get currentPhase() {
+    return this.state.phase.value;
+  }
+
+  /**
+   * 座位上的玩家数量
+   */
+  get playerCount() {
+    return this.players.length;
+  }
+
+  /**
+   * 获取会话故障状态
+   */
+  get isBroken() {
+    return this.broken;
+  }
+
+  /**
+   * 标记会话故障，锁定会话并通知说书人
+   * 提示直接发送，不经过可能已经出错的队列
+   * @param errors 最近发生的错误数量
+   */
+  markBroken(errors: number) {
+    if (this.destroyed || this.broken) return;
+
+    this.broken = true;
+    this.locked = true;
+
+    BOT.api
+      .messageCreate({
+        target_id: this.renderer.storytellerChannelId,
+        type: ApiMessageType.CARD,
+        content: JSON.stringify(brokenCard(errors)),
+      })
+      .catch(console.error);
+  }
+
+  /**
+   * 说书人选择继续游戏，解除故障状态
+   */
+  resume() {
+    if (!this.broken) return;
+
+    this.broken = false;
+    this.unlock();
+  }
+
   /**
    * 清除用户的不活跃定时器
    */
@@ -388,6 +833,17 @@ export class Session {
     }
 
     this.players.splice(index, 1);
+    this.renderer.setSpectatorAccess(user, true);
+
+    // 移除与该玩家相关的准备状态与换座请求
+    if (this.state.ready.value.includes(user)) {
+      this.state.ready.set(this.state.ready.value.filter((id) => id !== user));
+    }
+    const seatRequests = this.state.seatRequests.value;
+    if (seatRequests.some((r) => r.from === user || r.to === user)) {
+      this.state.seatRequests.set(seatRequests.filter((r) => r.from !== user && r.to !== user));
+    }
+
     this.updatePlayerList();
   }
 
@@ -409,7 +865,18 @@ export class Session {
         count: 0,
         status: PlayerVoteStatus.NONE,
       },
+      reminders: [],
+      voteModifier: VoteModifier.NORMAL,
+      notes: [],
     });
+
+    // 玩家不能进入旁观频道，已经在旁观语音中的需要回到城镇广场
+    this.renderer.setSpectatorAccess(user, false);
+    const channelId = this.activeUsers.get(user);
+    if (channelId && channelId === this.renderer.spectatorVoiceChannelId) {
+      this.renderer.dynamicChannels?.roamUserToChannel(user, this.renderer.voiceChannelId);
+    }
+
     this.updatePlayerList();
   }
 
@@ -434,6 +901,85 @@ export class Session {
     return dynamicChannels.getChannelNameById(channelId);
   }
 
+  /**
+   * 获取语音频道对应的位置名称，包括城镇广场与小屋
+   */
+  private getLocationName(channelId: string): string | null {
+    if (channelId === this.renderer.voiceChannelId) return '⛲ 城镇广场';
+
+    const cottageOwner = this.renderer.dynamicChannels?.getCottageOwner(channelId);
+    if (cottageOwner) {
+      const index = this.players.findIndex((p) => p.id === cottageOwner);
+      return `🏠 小屋${index !== -1 ? ` ${CIRCLED_NUMBERS[index + 1] || '⓪'}` : ''}`;
+    }
+
+    return this.getChannelNameById(channelId);
+  }
+
+  /** 自由活动中玩家的移动记录，玩家 -> 经过的位置 */
+  private locationMoves = new Map<string, string[]>();
+
+  /** 位置汇总定时器 */
+  private locationSummaryTimer?: NodeJS.Timeout;
+
+  /**
+   * 记录玩家的位置变化
+   * @param previous 玩家之前所在的频道
+   */
+  private recordLocationMove(userId: string, previous: string | undefined, channelId: string) {
+    if (!this.phase(Phase.ROAMING) || !this.internalHasPlayer(userId)) return;
+
+    const to = this.getLocationName(channelId);
+    if (!to) return;
+
+    let moves = this.locationMoves.get(userId);
+    if (!moves) {
+      const from = previous ? this.getLocationName(previous) : null;
+      moves = from ? [from] : [];
+      this.locationMoves.set(userId, moves);
+    }
+    if (moves[moves.length - 1] !== to) moves.push(to);
+  }
+
+  /**
+   * 开始定时汇总位置变化
+   */
+  private startLocationSummary() {
+    clearInterval(this.locationSummaryTimer);
+    this.locationMoves.clear();
+
+    this.locationSummaryTimer = setInterval(() => {
+      this.sendLocationSummary();
+
+      // 自由活动结束后停止汇总
+      if (!this.phase(Phase.ROAMING)) {
+        clearInterval(this.locationSummaryTimer);
+        this.locationSummaryTimer = undefined;
+      }
+    }, LOCATION_SUMMARY_INTERVAL);
+  }
+
+  /**
+   * 向说书人频道发送上次汇总以来的位置变化
+   */
+  private sendLocationSummary() {
+    if (this.destroyed) return;
+
+    const lines: string[] = [];
+    for (const [userId, moves] of this.locationMoves) {
+      if (moves.length < 2) continue;
+      lines.push(`(met)${userId}(met)：${moves.join(' → ')}`);
+    }
+    this.locationMoves.clear();
+
+    if (lines.length === 0 || !this.state.locationSummary.value) return;
+
+    this.renderer.sendMessageToStoryteller(
+      ApiMessageType.CARD,
+      JSON.stringify(textCard(`**📍 位置变化**\n${lines.join('\n')}`)),
+    );
+  }
+
   private internalPlayerToCottage() {
     // 移动所有玩家到小木屋
     const dynamicChannels = this.renderer.dynamicChannels;
@@ -479,7 +1025,7 @@ export class Session {
       const shouldMute = this.shouldUserBeMuted(userId);
 
       if (shouldMute) {
-        MUTES.mute(userId);
+        MUTES.mute(userId, this.guild.guildId);
       } else {
         MUTES.unmute(userId);
       }
@@ -505,8 +1051,14 @@ export class Session {
     if (this.muteSet.has(userId)) return true;
 
     // 如果禁止旁观者发言，且旁观者不在准备阶段，则应该被禁言
+    // 旁观语音频道中的旁观者可以自由发言
     const isSpectator = !this.internalHasPlayer(userId) && userId !== this.storytellerId;
-    if (!this.spectatorVoice && isSpectator && !this.isPreparing()) return true;
+    const inSpectatorVoice =
+      !!this.renderer.spectatorVoiceChannelId &&
+      this.activeUsers.get(userId) === this.renderer.spectatorVoiceChannelId;
+    if (!this.spectatorVoice && isSpectator && !inSpectatorVoice && !this.isPreparing()) {
+      return true;
+    }
 
     return false;
   }
@@ -582,6 +1134,7 @@ export class Session {
         case PlayerStatus.DEAD:
           if (
             this.vote.isNomination() &&
+            !this.vote.isExile() &&
             player.vote.status === PlayerVoteStatus.COUNTED &&
             player.vote.count > 0
           ) {
@@ -605,7 +1158,59 @@ export class Session {
       }
     };
 
-    const players: typeof this.state.list.value = [...this.players].map((p, index) => {
+    const grimoire = (player: PlayerState) => {
+      const reminders = player.reminders.map((reminder) => `[${reminder}]`).join('');
+      const reminderInfo = reminders ? `(font)${reminders}(font)[warning]` : '';
+
+      if (!player.character) {
+        if (this.state.listMode.value !== ListMode.GRIMOIRE && !reminderInfo) return null;
+        return `(font)未分配(font)[tips]${reminderInfo}`;
+      }
+
+      const color = player.alignment === Alignment.EVIL ? 'danger' : 'info';
+      return `(font)${player.character.name}(font)[${color}]${reminderInfo}`;
+    };
+
+    const voteRule = (player: PlayerState) => {
+      switch (player.voteModifier) {
+        case VoteModifier.DOUBLE:
+          return '(font)双票(font)[purple]';
+        case VoteModifier.NO_VOTE:
+          return '(font)禁票(font)[danger]';
+        case VoteModifier.TOKEN_ONLY:
+          return '(font)限票(font)[warning]';
+        default:
+          return this.state.listMode.value === ListMode.VOTE_RULE ? '(font)正常(font)[tips]' : null;
+      }
+    };
+
+    const notes = (player: PlayerState) => {
+      if (player.notes.length === 0) {
+        return this.state.listMode.value === ListMode.NOTES ? '(font)无备注(font)[tips]' : null;
+      }
+
+      // 备注模式下显示全部备注，其他模式只显示开头
+      if (this.state.listMode.value === ListMode.NOTES) {
+        return `(font)📝 ${player.notes.map((note, index) => `${index + 1}.${note}`).join(' ')}(font)[secondary]`;
+      }
+      const text = player.notes.join(' ');
+      return `(font)📝 ${text.length > NOTE_PREVIEW_LENGTH ? text.slice(0, NOTE_PREVIEW_LENGTH) + '…' : text}(font)[tips]`;
+    };
+
+    const readySet = new Set(this.state.ready.value);
+    const ready = (userId: string) => {
+      if (!this.state.readyCheck.value) return null;
+      return readySet.has(userId) ? '(font)已准备(font)[success]' : '(font)未准备(font)[danger]';
+    };
+
+    const players: ListPlayerItem[] = [];
+    const storytellerPlayers: ListPlayerItem[] = [];
+    const pushAll = (item: ListPlayerItem) => {
+      players.push(item);
+      storytellerPlayers.push(item);
+    };
+
+    this.players.forEach((p, index) => {
       const preVoteColumns = [
         mute(p.id),
         slot(
@@ -614,11 +1219,12 @@ export class Session {
           this.phase(Phase.COTTAGE) ? 'tips' : 'success',
         ),
         status(p),
+        ready(p.id),
       ];
 
       const postVoteColumns = [`(met)${p.id}(met)`, channelInfo(p.id)];
 
-      return {
+      const item: ListPlayerItem = {
         type: 'player',
         id: p.id,
         joined: joinedPlayers.has(p.id),
@@ -626,6 +1232,17 @@ export class Session {
         vote: vote(p.vote) || '',
         postVoteInfo: SEP + postVoteColumns.filter((item) => item !== null).join(SEP),
       };
+
+      // 魔典信息只出现在说书人列表中
+      players.push(item);
+      storytellerPlayers.push({
+        ...item,
+        preVoteInfo:
+          [...preVoteColumns, voteRule(p), grimoire(p)].filter((item) => item !== null).join(SEP) +
+          SEP,
+        postVoteInfo:
+          SEP + [...postVoteColumns, notes(p)].filter((item) => item !== null).join(SEP),
+      });
     });
 
     const storytellerInfoColumns = [
@@ -634,7 +1251,7 @@ export class Session {
       channelInfo(this.storytellerId),
     ];
 
-    players.push({
+    pushAll({
       type: 'storyteller',
       id: this.storytellerId,
       joined: joinedPlayers.has(this.storytellerId),
@@ -664,7 +1281,7 @@ export class Session {
         channelInfo(userId),
       ];
 
-      players.push({
+      pushAll({
         type: this.helperSet.has(userId) ? 'helper' : 'spectator',
         id: userId,
         joined: true,
@@ -677,10 +1294,54 @@ export class Session {
     // 更新城镇广场人数
     this.state.townsquareCount.set(this.townsquareUsers.size);
 
+    // 更新各地点人数
+    const occupancy = this.state.locations.value.map((location) => {
+      const channelId = this.renderer.dynamicChannels?.getLocationChannel(
+        locationChannelName(location),
+      );
+      if (!channelId) return 0;
+
+      let count = 0;
+      for (const [userId, userChannelId] of this.activeUsers) {
+        if (userChannelId === channelId && userId !== this.storytellerId) count++;
+      }
+      return count;
+    });
+    if (!deepEqual(this.state.locationOccupancy.value, occupancy)) {
+      this.state.locationOccupancy.set(occupancy);
+    }
+
+    // 巡视模式按语音频道分组
+    if (this.state.listMode.value === ListMode.EAVESDROP) {
+      const groups = new Map<string, ChannelGroup>();
+      for (const [userId, channelId] of this.activeUsers) {
+        const name = this.getLocationName(channelId);
+        if (!name) continue;
+
+        let group = groups.get(channelId);
+        if (!group) {
+          group = { id: channelId, name, users: [] };
+          groups.set(channelId, group);
+        }
+        group.users.push(userId);
+      }
+
+      const channelGroups = [...groups.values()];
+      if (!deepEqual(this.state.channelGroups.value, channelGroups)) {
+        this.state.channelGroups.set(channelGroups);
+      }
+    }
+
     // 只有在玩家列表实际发生变化时才更新
     if (!deepEqual(this.state.list.value, players)) {
       this.state.list.set(players);
     }
+    if (!deepEqual(this.state.storytellerList.value, storytellerPlayers)) {
+      this.state.storytellerList.set(storytellerPlayers);
+    }
+
+    this.updateNightOrder();
+    this.updateSpectatorView();
 
     // 更新选择状态
     if (this.state.listMode.value === ListMode.VOTING) {
@@ -711,8 +1372,20 @@ export class Session {
   protected async storytellerGameStart() {
     if (!this.phase(Phase.PREPARING, Phase.FINISH_GOOD, Phase.FINISH_BAD)) return;
 
+    // 游戏开始后准备确认与换座请求不再有效
+    this.clearReadyCheck();
+    if (this.state.listMode.value === ListMode.READY) {
+      this.state.listMode.set(ListMode.STATUS);
+    }
+
     // 进入夜晚阶段
+    this.state.nightCount.set(1);
+    this.nightDone.clear();
+    this.clearWakeQueue();
+    this.timer.cancel();
+    this.clearWhispers();
     this.state.phase.set(Phase.NIGHT);
+    this.record({ type: HistoryType.PHASE, phase: Phase.NIGHT });
     this.renderer.dynamicChannels?.hideLocations();
     this.renderer.dynamicChannels?.hideCottages();
     this.updateMuteState();
@@ -727,12 +1400,20 @@ export class Session {
 
     if (!this.phase(Phase.NIGHT, Phase.COTTAGE, Phase.ROAMING)) return;
 
+    // 从夜晚进入白天时开始新的一天
+    if (this.phase(Phase.NIGHT, Phase.COTTAGE)) {
+      this.vote.newDay();
+    }
+
     // 如果当前是小屋模式，切换回状态模式
     if (this.state.listMode.value === ListMode.COTTAGE) {
       this.storytellerListStatus();
     }
 
+    this.timer.cancel();
+    this.clearWhispers();
     this.state.phase.set(Phase.DAY);
+    this.record({ type: HistoryType.PHASE, phase: Phase.DAY });
     this.internalPlayerToTownsquare();
     this.renderer.dynamicChannels?.hideLocations();
     this.renderer.dynamicChannels?.hideCottages();
@@ -748,8 +1429,14 @@ export class Session {
 
     if (!this.phase(Phase.DAY)) return;
 
+    this.timer.cancel();
+    this.clearWhispers();
+    this.startLocationSummary();
     this.state.phase.set(Phase.ROAMING);
-    this.renderer.dynamicChannels?.showLocations();
+    this.record({ type: HistoryType.PHASE, phase: Phase.ROAMING });
+    this.renderer.dynamicChannels?.showLocations(
+      this.state.locations.value.map(locationChannelName),
+    );
     this.renderer.dynamicChannels?.showCottages();
     this.updateMuteState();
     this.updatePlayerList();
@@ -763,7 +1450,13 @@ export class Session {
 
     if (!this.phase(Phase.DAY, Phase.ROAMING)) return;
 
+    this.state.nightCount.set(this.state.nightCount.value + 1);
+    this.nightDone.clear();
+    this.clearWakeQueue();
+    this.timer.cancel();
+    this.clearWhispers();
     this.state.phase.set(Phase.NIGHT);
+    this.record({ type: HistoryType.PHASE, phase: Phase.NIGHT });
     this.renderer.dynamicChannels?.hideLocations();
     this.renderer.dynamicChannels?.hideCottages();
     this.updateMuteState();
@@ -778,7 +1471,10 @@ export class Session {
 
     if (!this.phase(Phase.NIGHT)) return;
 
+    this.timer.cancel();
+    this.clearWhispers();
     this.state.phase.set(Phase.COTTAGE);
+    this.record({ type: HistoryType.PHASE, phase: Phase.COTTAGE });
     this.internalPlayerToCottage();
     this.renderer.dynamicChannels?.hideLocations();
     this.renderer.dynamicChannels?.showCottages();
@@ -789,6 +1485,70 @@ export class Session {
     this.storytellerListSummon();
   }
 
+  /**
+   * 开始阶段计时
+   * @param time 计时时长（秒）
+   */
+  protected storytellerPhaseTimer(_: string, time: string) {
+    if (!this.phase(Phase.DAY, Phase.ROAMING)) return;
+
+    const seconds = parseInt(time);
+    if (isNaN(seconds) || seconds <= 0 || seconds > 30 * 60) return;
+
+    this.timer.start(seconds);
+    this.renderer.sendMessageToTownsquare(
+      ApiMessageType.CARD,
+      JSON.stringify(
+        textCard(
+          `⏰ (font)${this.phaseName()}计时 ${Math.round(seconds / 60)} 分钟(font)[warning]`,
+        ),
+      ),
+    );
+  }
+
+  protected storytellerPhaseTimerCancel() {
+    this.timer.cancel();
+  }
+
+  /**
+   * 切换自由活动计时结束后是否自动回到广场集会
+   */
+  protected storytellerTogglePhaseTimerAuto() {
+    this.state.phaseTimerAuto.set(!this.state.phaseTimerAuto.value);
+  }
+
+  /** 当前阶段在计时提醒中的名称 */
+  private phaseName() {
+    return this.phase(Phase.ROAMING) ? '自由活动' : '广场集会';
+  }
+
+  private phaseTimerWarning() {
+    if (this.destroyed) return;
+
+    this.renderer.sendMessageToTownsquare(
+      ApiMessageType.CARD,
+      JSON.stringify(textCard(`⏰ (font)${this.phaseName()}还剩 30 秒(font)[warning]`)),
+    );
+  }
+
+  private async phaseTimerExpire() {
+    if (this.destroyed) return;
+
+    // 自由活动结束后自动把所有人拉回广场
+    if (this.phase(Phase.ROAMING) && this.state.phaseTimerAuto.value) {
+      await this.storytellerGameDay();
+      if (this.destroyed) return;
+
+      // 正在切换阶段等原因未能回到广场时，改为发送时间到提醒
+      if (!this.phase(Phase.ROAMING)) return;
+    }
+
+    this.renderer.sendMessageToTownsquare(
+      ApiMessageType.CARD,
+      JSON.stringify(textCard(`⏰ (font)${this.phaseName()}时间到(font)[danger]`)),
+    );
+  }
+
   protected async storytellerGameRestart(winner?: 'good' | 'bad') {
     if (this.state.busy.value) return;
     this.state.busy.set(true);
@@ -806,9 +1566,30 @@ export class Session {
       }
     }
 
-    // 重置玩家状态
+    // 游戏结束时在城镇广场发送总结
+    if (winner) {
+      this.renderer.sendMessageToTownsquare(
+        ApiMessageType.CARD,
+        JSON.stringify(summaryCard(winner, this.history.events, this.players)),
+      );
+    }
+    this.history.clear();
+
+    this.state.nightCount.set(0);
+    this.nightDone.clear();
+    this.clearWakeQueue();
+    this.vote.resetDay();
+    this.timer.cancel();
+    this.clearWhispers();
+
+    // 重置玩家状态与魔典
     this.players.forEach((p) => {
       p.status = PlayerStatus.ALIVE;
+      p.character = undefined;
+      p.alignment = undefined;
+      p.reminders = [];
+      p.voteModifier = VoteModifier.NORMAL;
+      p.notes = [];
     });
 
     // 强制将所有玩家拉回广场语音
@@ -839,38 +1620,201 @@ export class Session {
     for (const userId of this.userInfoCards.keys()) {
       this.userInfoCards.delete(userId);
     }
+    this.privateLog = [];
     this.renderer.userCard.reset();
   }
 
-  protected async storytellerForceVoiceChannel() {
-    if (this.state.busy.value) return;
-    this.state.busy.set(true);
-    await this.renderer.dynamicChannels?.wait();
-    this.state.busy.set(false);
+  /**
+   * 记录游戏事件，只有游戏进行中的事件会被记录
+   */
+  private record(data: HistoryData) {
+    if (!this.phase(Phase.NIGHT, Phase.COTTAGE, Phase.DAY, Phase.ROAMING)) return;
+    this.history.record(data, this.state.nightCount.value, this.state.phase.value);
+  }
 
-    if (this.phase(Phase.COTTAGE)) {
-      this.internalPlayerToCottage();
+  /**
+   * 根据魔典中的在场角色更新夜晚行动顺序
+   */
+  private updateNightOrder() {
+    if (!this.phase(Phase.NIGHT, Phase.COTTAGE)) {
+      if (this.state.nightOrder.value.length > 0) {
+        this.state.nightOrder.set([]);
+      }
+      return;
+    }
+
+    const nightOrder = buildNightOrder(
+      this.players.map((p) => ({ id: p.id, character: p.character?.id })),
+      this.script?.resolvedRoles ?? [],
+      this.state.nightCount.value <= 1,
+      this.nightDone,
+    );
+
+    if (!deepEqual(this.state.nightOrder.value, nightOrder)) {
+      this.state.nightOrder.set(nightOrder);
+    }
+  }
+
+  protected storytellerNightOrderTick(userId: string, index: string) {
+    if (!this.phase(Phase.NIGHT, Phase.COTTAGE)) return;
+
+    const item = this.state.nightOrder.value[parseInt(index)];
+    if (!item) return;
+
+    if (this.nightDone.has(item.id)) {
+      this.nightDone.delete(item.id);
     } else {
-      this.internalPlayerToTownsquare(true);
+      this.nightDone.add(item.id);
     }
+    this.updateNightOrder();
   }
 
-  protected storytellerGameOpen() {
-    this.renderer.setOpen(true);
+  protected storytellerNightOrderReset() {
+    this.nightDone.clear();
+    this.updateNightOrder();
   }
 
-  protected storytellerGameInviteOnly() {
-    this.renderer.setOpen(false);
+  /**
+   * 清空唤醒队列
+   */
+  private clearWakeQueue() {
+    if (this.state.wakeQueue.value.length > 0) this.state.wakeQueue.set([]);
+    this.state.wakeIndex.set(-1);
   }
 
-  protected storytellerGameDelete() {
-    if (this.destroyed) return;
+  /**
+   * 按夜晚行动顺序生成唤醒队列，已完成的角色不会加入队列
+   */
+  private seedWakeQueue() {
+    this.updateNightOrder();
+
+    const queue: string[] = [];
+    for (const item of this.state.nightOrder.value) {
+      if (item.done) continue;
+      for (const id of item.players) {
+        if (!queue.includes(id)) queue.push(id);
+      }
+    }
 
-    this.register.destroy();
+    this.state.wakeQueue.set(queue);
+    this.state.wakeIndex.set(-1);
   }
 
-  protected storytellerListStatus() {
-    const previousListMode = this.state.listMode.value;
+  protected storytellerListWake() {
+    // 唤醒队列只在夜晚可用
+    if (!this.phase(Phase.COTTAGE)) return;
+
+    if (this.state.wakeQueue.value.length === 0) {
+      this.seedWakeQueue();
+    }
+
+    this.listSelection = new Set();
+    this.state.listArg.set(0);
+    this.state.listMode.set(ListMode.WAKE);
+    this.updatePlayerList();
+  }
+
+  protected storytellerWakeSeed() {
+    if (this.state.listMode.value !== ListMode.WAKE) return;
+    this.seedWakeQueue();
+  }
+
+  protected storytellerWakeClear() {
+    if (this.state.listMode.value !== ListMode.WAKE) return;
+    this.clearWakeQueue();
+  }
+
+  /**
+   * 将玩家加入唤醒队列末尾，或从队列中移出尚未唤醒的玩家
+   */
+  protected storytellerSelectWake(targetId: string) {
+    if (this.state.listMode.value !== ListMode.WAKE) return;
+    if (!this.internalHasPlayer(targetId)) return;
+
+    const queue = this.state.wakeQueue.value;
+    const index = queue.indexOf(targetId);
+
+    if (index === -1) {
+      this.state.wakeQueue.set([...queue, targetId]);
+      return;
+    }
+
+    // 已经唤醒过的玩家不能移出
+    if (index <= this.state.wakeIndex.value) return;
+    this.state.wakeQueue.set(queue.filter((id) => id !== targetId));
+  }
+
+  /**
+   * 将正在唤醒的玩家送回小屋，并传唤队列中的下一位玩家
+   */
+  protected storytellerWakeNext(userId: string) {
+    if (this.state.listMode.value !== ListMode.WAKE || !this.phase(Phase.COTTAGE)) return;
+
+    const dynamicChannels = this.renderer.dynamicChannels;
+    if (!dynamicChannels) return;
+
+    const queue = this.state.wakeQueue.value;
+    let index = this.state.wakeIndex.value;
+    if (index >= queue.length) return;
+
+    // 传唤需要说书人在语音频道中
+    const storytellerChannelId = this.activeUsers.get(userId);
+    if (!storytellerChannelId) {
+      this.renderer.sendTemporaryMessage(
+        this.renderer.storytellerChannelId,
+        userId,
+        '请先进入语音频道，再传唤下一位玩家',
+      );
+      return;
+    }
+
+    const current = queue[index];
+    if (current && this.internalHasPlayer(current)) {
+      dynamicChannels.roamUserToCottage(current);
+    }
+
+    // 跳过已经离开游戏的玩家
+    index++;
+    while (index < queue.length && !this.internalHasPlayer(queue[index]!)) {
+      index++;
+    }
+    this.state.wakeIndex.set(index);
+
+    const next = queue[index];
+    if (next) {
+      dynamicChannels.roamUserToChannel(next, storytellerChannelId);
+    }
+  }
+
+  protected async storytellerForceVoiceChannel() {
+    if (this.state.busy.value) return;
+    this.state.busy.set(true);
+    await this.renderer.dynamicChannels?.wait();
+    this.state.busy.set(false);
+
+    if (this.phase(Phase.COTTAGE)) {
+      this.internalPlayerToCottage();
+    } else {
+      this.internalPlayerToTownsquare(true);
+    }
+  }
+
+  protected storytellerGameOpen() {
+    this.renderer.setOpen(true);
+  }
+
+  protected storytellerGameInviteOnly() {
+    this.renderer.setOpen(false);
+  }
+
+  protected storytellerGameDelete() {
+    if (this.destroyed) return;
+
+    this.register.destroy();
+  }
+
+  protected storytellerListStatus() {
+    const previousListMode = this.state.listMode.value;
 
     this.listSelection = new Set();
     this.state.listArg.set(0);
@@ -891,6 +1835,10 @@ export class Session {
 
     // 从投票中退出时
     if (previousListMode === ListMode.VOTING) {
+      const result = this.vote.result();
+      if (result) {
+        this.record({ type: HistoryType.VOTE, ...result });
+      }
       this.vote.exit();
       // exit 中会更新，不用更新两次
       return;
@@ -928,6 +1876,64 @@ export class Session {
     this.updatePlayerList();
   }
 
+  /**
+   * 开启或关闭旁观语音频道
+   */
+  protected storytellerToggleSpectatorChannel() {
+    if (this.state.listMode.value !== ListMode.SPECTATE) return;
+
+    if (this.renderer.isSpectatorVoiceOpen) {
+      this.renderer.closeSpectatorVoiceChannel();
+    } else {
+      this.renderer.openSpectatorVoiceChannel(this.players.map((p) => p.id));
+    }
+  }
+
+  protected storytellerToggleSpectatorBroadcast() {
+    if (this.state.listMode.value !== ListMode.SPECTATE) return;
+
+    const enabled = !this.state.spectatorBroadcast.value;
+    this.state.spectatorBroadcast.set(enabled);
+    if (enabled) {
+      this.updateSpectatorView();
+    } else {
+      this.broadcast.clear();
+    }
+  }
+
+  /**
+   * 设置魔典直播的延迟，已经在等待中的画面不受影响
+   * @param delay 延迟（秒）
+   */
+  protected storytellerSpectatorDelay(_: string, delay: string) {
+    if (this.state.listMode.value !== ListMode.SPECTATE) return;
+
+    const seconds = parseInt(delay);
+    if (isNaN(seconds) || seconds <= 0 || seconds > 30 * 60) return;
+
+    this.state.spectatorDelay.set(seconds);
+  }
+
+  /**
+   * 将当前的魔典画面推送到直播中
+   */
+  private updateSpectatorView() {
+    if (!this.state.spectatorBroadcast.value) return;
+
+    this.broadcast.push({
+      phase: this.state.phase.value,
+      day: this.state.nightCount.value,
+      players: this.players.map((p) => ({
+        id: p.id,
+        status: p.status,
+        character: p.character?.name,
+        alignment: p.alignment,
+        reminders: [...p.reminders],
+      })),
+      privates: [...this.privateLog],
+    });
+  }
+
   protected storytellerListKick() {
     this.listSelection = new Set();
     this.state.listArg.set(0);
@@ -965,6 +1971,7 @@ export class Session {
     this.listSelection = new Set();
     this.state.listArg.set(3); // 默认每人3秒
     this.vote.voteTime = 3;
+    this.state.exile.set(false);
     this.state.listMode.set(ListMode.NOMINATE);
     this.updatePlayerList();
   }
@@ -996,6 +2003,266 @@ export class Session {
     this.updatePlayerList();
   }
 
+  protected storytellerListGrimoire() {
+    this.listSelection = new Set();
+    this.state.listArg.set(0);
+    this.state.listMode.set(ListMode.GRIMOIRE);
+    this.updatePlayerList();
+  }
+
+  protected storytellerListNotes() {
+    this.listSelection = new Set();
+    this.state.listArg.set(0);
+    this.state.listMode.set(ListMode.NOTES);
+    this.updatePlayerList();
+  }
+
+  protected storytellerListVoteRule() {
+    this.listSelection = new Set();
+    this.state.listArg.set(0);
+    this.state.listMode.set(ListMode.VOTE_RULE);
+    this.updatePlayerList();
+  }
+
+  /**
+   * 依次切换玩家的投票规则
+   */
+  protected storytellerSelectVoteRule(userId: string) {
+    if (this.state.listMode.value !== ListMode.VOTE_RULE) return;
+
+    const player = this.players.find((p) => p.id === userId);
+    if (!player) return;
+
+    switch (player.voteModifier) {
+      case VoteModifier.NORMAL:
+        player.voteModifier = VoteModifier.DOUBLE;
+        break;
+      case VoteModifier.DOUBLE:
+        player.voteModifier = VoteModifier.NO_VOTE;
+        break;
+      case VoteModifier.NO_VOTE:
+        player.voteModifier = VoteModifier.TOKEN_ONLY;
+        break;
+      default:
+        player.voteModifier = VoteModifier.NORMAL;
+        break;
+    }
+
+    this.updatePlayerList();
+  }
+
+  protected storytellerListReady() {
+    if (!this.phase(Phase.PREPARING, Phase.FINISH_GOOD, Phase.FINISH_BAD)) return;
+
+    this.listSelection = new Set();
+    this.state.listArg.set(0);
+    this.state.listMode.set(ListMode.READY);
+    this.updatePlayerList();
+  }
+
+  /**
+   * 发起准备确认，所有玩家需要重新确认
+   */
+  protected storytellerReadyCheck() {
+    if (!this.phase(Phase.PREPARING, Phase.FINISH_GOOD, Phase.FINISH_BAD)) return;
+
+    this.state.ready.set([]);
+    this.state.readyCheck.set(true);
+    this.renderer.sendMessageToTownsquare(
+      ApiMessageType.CARD,
+      JSON.stringify(textCard('✋ 说书人发起了准备确认，请点击「我准备好了」')),
+    );
+    this.storytellerListReady();
+  }
+
+  protected storytellerReadyCheckEnd() {
+    if (!this.state.readyCheck.value) return;
+
+    this.state.readyCheck.set(false);
+    this.state.ready.set([]);
+    this.updatePlayerList();
+  }
+
+  /**
+   * 同意玩家的换座请求
+   */
+  protected storytellerSelectReady(targetId: string) {
+    if (this.state.listMode.value !== ListMode.READY) return;
+    if (!this.phase(Phase.PREPARING, Phase.FINISH_GOOD, Phase.FINISH_BAD)) return;
+
+    const request = this.state.seatRequests.value.find((r) => r.from === targetId);
+    if (!request) return;
+
+    const fromIndex = this.players.findIndex((p) => p.id === request.from);
+    const toIndex = this.players.findIndex((p) => p.id === request.to);
+    if (fromIndex !== -1 && toIndex !== -1) {
+      [this.players[fromIndex], this.players[toIndex]] = [
+        this.players[toIndex]!,
+        this.players[fromIndex]!,
+      ];
+      this.record({ type: HistoryType.SWAP, players: [request.from, request.to] });
+    }
+
+    // 座位变化后，涉及这两名玩家的其他请求不再有效
+    this.state.seatRequests.set(
+      this.state.seatRequests.value.filter(
+        (r) =>
+          r.from !== request.from &&
+          r.from !== request.to &&
+          r.to !== request.from &&
+          r.to !== request.to,
+      ),
+    );
+    this.updatePlayerList();
+  }
+
+  protected storytellerSeatRejectAll() {
+    if (this.state.listMode.value !== ListMode.READY) return;
+
+    for (const request of this.state.seatRequests.value) {
+      this.renderer.sendTemporaryMessage(
+        this.renderer.townsquareChannelId,
+        request.from,
+        `说书人拒绝了你与 (met)${request.to}(met) 换座的请求`,
+      );
+    }
+    this.state.seatRequests.set([]);
+    this.updatePlayerList();
+  }
+
+  /**
+   * 结束准备确认并清除换座请求
+   */
+  private clearReadyCheck() {
+    if (this.state.readyCheck.value) this.state.readyCheck.set(false);
+    if (this.state.ready.value.length > 0) this.state.ready.set([]);
+    if (this.state.seatRequests.value.length > 0) this.state.seatRequests.set([]);
+  }
+
+  protected storytellerListWhisper() {
+    this.listSelection = new Set();
+    this.state.listArg.set(0);
+    this.state.listMode.set(ListMode.WHISPER);
+    this.updatePlayerList();
+  }
+
+  /**
+   * 同意玩家的私聊请求
+   */
+  protected storytellerSelectWhisper(userId: string, operatorId?: string) {
+    if (this.state.listMode.value !== ListMode.WHISPER) return;
+    if (!this.phase(Phase.DAY)) return;
+
+    const request = this.state.whispers.value.find((w) => w.from === userId);
+    if (!request) return;
+
+    const dynamicChannels = this.renderer.dynamicChannels;
+    if (!dynamicChannels) return;
+
+    // 有玩家正在私聊时不能同意，通知说书人与发起请求的玩家
+    if (dynamicChannels.isWhispering(request.from) || dynamicChannels.isWhispering(request.to)) {
+      this.state.whispers.set(this.state.whispers.value.filter((w) => w !== request));
+      this.renderer.sendTemporaryMessage(
+        this.renderer.storytellerChannelId,
+        operatorId ?? this.storytellerId,
+        `(met)${request.from}(met) 或 (met)${request.to}(met) 正在私聊中，已取消该私聊请求`,
+      );
+      this.renderer.sendTemporaryMessage(
+        this.renderer.townsquareChannelId,
+        request.from,
+        `你或 (met)${request.to}(met) 正在私聊中，私聊请求已取消，请稍后再试`,
+      );
+      this.updatePlayerList();
+      return;
+    }
+
+    // 两人开始私聊后，与两人有关的其他请求都不再有效
+    const busy = (id: string) => id === request.from || id === request.to;
+    for (const w of this.state.whispers.value) {
+      if (w === request || (!busy(w.from) && !busy(w.to))) continue;
+      this.renderer.sendTemporaryMessage(
+        this.renderer.townsquareChannelId,
+        w.from,
+        `你或 (met)${w.to}(met) 已经开始私聊，私聊请求已取消`,
+      );
+    }
+    this.state.whispers.set(this.state.whispers.value.filter((w) => !busy(w.from) && !busy(w.to)));
+
+    dynamicChannels.whisper([request.from, request.to], this.state.whisperTime.value * 1000);
+    this.record({ type: HistoryType.WHISPER, from: request.from, to: request.to });
+    this.renderer.sendMessageToTownsquare(
+      ApiMessageType.CARD,
+      JSON.stringify(textCard(`🤫 (met)${request.from}(met) 与 (met)${request.to}(met) 私聊了`)),
+    );
+    this.updatePlayerList();
+  }
+
+  protected storytellerWhisperRejectAll() {
+    if (this.state.listMode.value !== ListMode.WHISPER) return;
+
+    for (const request of this.state.whispers.value) {
+      this.renderer.sendTemporaryMessage(
+        this.renderer.townsquareChannelId,
+        request.from,
+        `说书人拒绝了你与 (met)${request.to}(met) 的私聊请求`,
+      );
+    }
+    this.state.whispers.set([]);
+  }
+
+  protected storytellerSetWhisperTime(_: string, time: string) {
+    if (this.state.listMode.value !== ListMode.WHISPER) return;
+
+    const whisperTime = parseInt(time);
+    if (isNaN(whisperTime) || whisperTime <= 0 || whisperTime > 10 * 60) return;
+
+    this.state.whisperTime.set(whisperTime);
+  }
+
+  /**
+   * 清空私聊请求并结束所有私聊
+   */
+  private clearWhispers() {
+    this.state.whispers.set([]);
+    this.renderer.dynamicChannels?.endWhispers();
+  }
+
+  protected storytellerListEavesdrop() {
+    this.listSelection = new Set();
+    this.state.listArg.set(0);
+    this.state.listMode.set(ListMode.EAVESDROP);
+    this.updatePlayerList();
+  }
+
+  /**
+   * 说书人前往指定玩家所在的语音频道
+   */
+  protected storytellerSelectEavesdrop(targetId: string, userId: string) {
+    if (this.state.listMode.value !== ListMode.EAVESDROP) return;
+
+    const channelId = this.activeUsers.get(targetId);
+    if (!channelId) return;
+
+    this.storytellerEavesdropJoin(userId, channelId);
+  }
+
+  /**
+   * 说书人前往指定的语音频道
+   */
+  protected storytellerEavesdropJoin(userId: string, channelId: string) {
+    if (this.state.listMode.value !== ListMode.EAVESDROP) return;
+    if (this.activeUsers.get(userId) === channelId) return;
+
+    // 只能前往属于小镇的频道
+    if (!this.getLocationName(channelId)) return;
+
+    this.renderer.dynamicChannels?.roamUserToChannel(userId, channelId);
+  }
+
+  protected storytellerToggleLocationSummary() {
+    this.state.locationSummary.set(!this.state.locationSummary.value);
+  }
+
   protected storytellerSelectStatus(userId: string) {
     if (this.state.listMode.value !== ListMode.STATUS) return;
 
@@ -1014,9 +2281,322 @@ export class Session {
         break;
     }
 
+    this.record({ type: HistoryType.STATUS, player: player.id, status: player.status });
+    this.updatePlayerList();
+  }
+
+  protected storytellerSelectGrimoire(userId: string) {
+    if (this.state.listMode.value !== ListMode.GRIMOIRE) return;
+
+    if (!this.internalHasPlayer(userId)) return;
+
+    if (this.listSelection.has(userId)) {
+      this.listSelection.delete(userId);
+    } else {
+      this.listSelection.clear(); // 魔典一次只编辑一个座位
+      this.listSelection.add(userId);
+    }
+
+    this.updatePlayerList();
+  }
+
+  protected storytellerSelectNotes(userId: string) {
+    if (this.state.listMode.value !== ListMode.NOTES) return;
+
+    if (!this.internalHasPlayer(userId)) return;
+
+    if (this.listSelection.has(userId)) {
+      this.listSelection.delete(userId);
+    } else {
+      this.listSelection.clear(); // 一次只编辑一个座位的备注
+      this.listSelection.add(userId);
+    }
+
+    this.updatePlayerList();
+  }
+
+  /**
+   * 清除正在编辑的玩家的所有备注
+   */
+  protected storytellerNotesClear() {
+    if (this.state.listMode.value !== ListMode.NOTES) return;
+
+    const target = this.listSelection.values().next().value;
+    const player = this.players.find((p) => p.id === target);
+    if (!player) return;
+
+    player.notes = [];
+    this.updatePlayerList();
+  }
+
+  /**
+   * 处理备注模式下说书人发送的消息
+   *
+   * - 任意文本：添加一条备注
+   * - -序号：移除对应的备注
+   */
+  private handleNotesMessage(event: TextMessageEvent) {
+    const target = this.listSelection.values().next().value;
+    const player = this.players.find((p) => p.id === target);
+    if (!player) {
+      this.renderer.sendTemporaryMessage(
+        event.target_id,
+        event.author_id,
+        '请先选择要添加备注的玩家',
+      );
+      return;
+    }
+
+    if (event.type !== MessageType.TEXT && event.type !== MessageType.KMARKDOWN) return;
+
+    const text = event.content.trim().replace(/\s+/g, ' ');
+    if (!text) return;
+
+    const remove = text.match(/^-\s*(\d+)$/);
+    if (remove) {
+      const index = parseInt(remove[1]!) - 1;
+      player.notes = player.notes.filter((_, i) => i !== index);
+    } else {
+      if (player.notes.length >= MAX_NOTES) {
+        this.renderer.sendTemporaryMessage(
+          event.target_id,
+          event.author_id,
+          `每名玩家最多只能添加 ${MAX_NOTES} 条备注`,
+        );
+        return;
+      }
+      player.notes.push(text);
+    }
+
     this.updatePlayerList();
   }
 
+  /**
+   * 获取魔典中正在编辑的玩家
+   */
+  private getGrimoireTarget() {
+    if (this.state.listMode.value !== ListMode.GRIMOIRE) return null;
+
+    const target = this.listSelection.values().next().value;
+    if (!target) return null;
+
+    return this.players.find((p) => p.id === target) ?? null;
+  }
+
+  /**
+   * 切换选中玩家的阵营
+   */
+  protected storytellerGrimoireAlignment() {
+    const player = this.getGrimoireTarget();
+    if (!player) return;
+
+    player.alignment = player.alignment === Alignment.EVIL ? Alignment.GOOD : Alignment.EVIL;
+    this.updatePlayerList();
+  }
+
+  /**
+   * 清除选中玩家的角色与提示标记
+   */
+  protected storytellerGrimoireClearPlayer() {
+    const player = this.getGrimoireTarget();
+    if (!player) return;
+
+    player.character = undefined;
+    player.alignment = undefined;
+    player.reminders = [];
+    this.updatePlayerList();
+  }
+
+  /**
+   * 清空魔典
+   */
+  protected storytellerGrimoireReset() {
+    if (this.state.listMode.value !== ListMode.GRIMOIRE) return;
+
+    this.players.forEach((p) => {
+      p.character = undefined;
+      p.alignment = undefined;
+      p.reminders = [];
+    });
+    this.listSelection.clear();
+    this.updatePlayerList();
+  }
+
+  /**
+   * 处理魔典模式下说书人发送的消息
+   *
+   * - 角色名称或ID：分配角色
+   * - 善良 / 邪恶：设置阵营
+   * - +标记 / -标记：添加或移除提示标记
+   */
+  private handleGrimoireMessage(event: TextMessageEvent) {
+    const player = this.getGrimoireTarget();
+    if (!player) {
+      this.renderer.sendTemporaryMessage(
+        event.target_id,
+        event.author_id,
+        '请先在魔典中选择要编辑的玩家',
+      );
+      return;
+    }
+
+    if (event.type !== MessageType.TEXT && event.type !== MessageType.KMARKDOWN) return;
+
+    const text = event.content.trim();
+    if (!text) return;
+
+    if (text.startsWith('+')) {
+      const reminder = text.slice(1).trim();
+      if (reminder && !player.reminders.includes(reminder)) {
+        player.reminders.push(reminder);
+      }
+    } else if (text.startsWith('-')) {
+      const reminder = text.slice(1).trim();
+      player.reminders = player.reminders.filter((r) => r !== reminder);
+    } else if (text === '善良' || text === '善') {
+      player.alignment = Alignment.GOOD;
+    } else if (text === '邪恶' || text === '邪') {
+      player.alignment = Alignment.EVIL;
+    } else {
+      const character = findCharacter(text, this.script?.resolvedRoles);
+      if (!character) {
+        this.renderer.sendTemporaryMessage(
+          event.target_id,
+          event.author_id,
+          `没有找到角色：${text}`,
+        );
+        return;
+      }
+
+      player.character = character;
+      player.alignment = isEvilTeam(character.team) ? Alignment.EVIL : Alignment.GOOD;
+    }
+
+    this.updatePlayerList();
+  }
+
+  protected storytellerListDeal(userId: string) {
+    if (!this.script) {
+      this.renderer.sendTemporaryMessage(
+        this.renderer.storytellerChannelId,
+        userId,
+        '请先在说书人频道发送剧本链接或剧本 JSON 加载剧本',
+      );
+      return;
+    }
+
+    if (!this.buildDealBag(userId)) return;
+
+    this.listSelection = new Set();
+    this.state.listArg.set(0);
+    this.state.listMode.set(ListMode.DEAL);
+    this.updatePlayerList();
+  }
+
+  /**
+   * 根据当前玩家人数重新组成角色袋
+   * @returns 是否成功
+   */
+  private buildDealBag(userId: string) {
+    if (!this.script) return false;
+
+    try {
+      this.state.bag.set(buildBag(this.script.resolvedRoles, this.players.length));
+      return true;
+    } catch (error: any) {
+      this.renderer.sendTemporaryMessage(
+        this.renderer.storytellerChannelId,
+        userId,
+        error?.message ?? String(error),
+      );
+      return false;
+    }
+  }
+
+  protected storytellerDealRebuild(userId: string) {
+    if (this.state.listMode.value !== ListMode.DEAL) return;
+    this.buildDealBag(userId);
+  }
+
+  /**
+   * 将角色袋中的角色随机发给玩家，并通过托梦卡片告知玩家
+   */
+  protected storytellerDealConfirm(userId: string) {
+    if (this.state.listMode.value !== ListMode.DEAL) return;
+
+    const bag = [...this.state.bag.value];
+    if (bag.length !== this.players.length) {
+      this.renderer.sendTemporaryMessage(
+        this.renderer.storytellerChannelId,
+        userId,
+        `角色袋中有 ${bag.length} 个角色，但是有 ${this.players.length} 名玩家`,
+      );
+      return;
+    }
+
+    shuffle(bag);
+    this.players.forEach((player, index) => {
+      const role = bag[index]!;
+      const evil = isEvilTeam(role.team);
+
+      player.character = toCharacter(role);
+      player.alignment = evil ? Alignment.EVIL : Alignment.GOOD;
+      player.reminders = [];
+
+      this.appendPrivateCard(player.id, [
+        {
+          type: 'section',
+          text: {
+            type: 'kmarkdown',
+            content: `你的角色是：**(font)${role.name}(font)[${evil ? 'danger' : 'info'}]**\n(font)${role.ability}(font)[secondary]`,
+          },
+        },
+      ]);
+    });
+
+    // 发牌后切换到魔典查看结果
+    this.storytellerListGrimoire();
+    this.updateMessagingCard();
+  }
+
+  /**
+   * 处理发牌模式下说书人发送的消息
+   *
+   * - +角色：向角色袋添加角色
+   * - -角色：从角色袋移除角色
+   */
+  private handleDealMessage(event: TextMessageEvent) {
+    if (event.type !== MessageType.TEXT && event.type !== MessageType.KMARKDOWN) return;
+
+    const text = event.content.trim();
+    const add = text.startsWith('+');
+    if (!add && !text.startsWith('-')) {
+      this.renderer.sendTemporaryMessage(
+        event.target_id,
+        event.author_id,
+        '发送 `+角色` 向角色袋添加角色，发送 `-角色` 从角色袋移除角色',
+      );
+      return;
+    }
+
+    const name = text.slice(1).trim();
+    const role = findRole(name, this.script?.resolvedRoles);
+    if (!role) {
+      this.renderer.sendTemporaryMessage(event.target_id, event.author_id, `没有找到角色：${name}`);
+      return;
+    }
+
+    const bag = [...this.state.bag.value];
+    if (add) {
+      bag.push(role);
+    } else {
+      const index = bag.findIndex((r) => r.id === role.id);
+      if (index < 0) return;
+      bag.splice(index, 1);
+    }
+    this.state.bag.set(bag);
+  }
+
   protected storytellerSelectSwap(userId: string) {
     if (this.state.listMode.value !== ListMode.SWAP) return;
 
@@ -1038,6 +2618,7 @@ export class Session {
           this.players[player2Index]!,
           this.players[player1Index]!,
         ];
+        this.record({ type: HistoryType.SWAP, players: selectedPlayers });
       }
 
       this.listSelection.clear();
@@ -1049,11 +2630,8 @@ export class Session {
   protected storytellerShufflePlayers() {
     if (this.state.listMode.value !== ListMode.SWAP) return;
 
-    // Fisher-Yates shuffle algorithm
-    for (let i = this.players.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [this.players[i], this.players[j]] = [this.players[j]!, this.players[i]!];
-    }
+    shuffle(this.players);
+    this.record({ type: HistoryType.SWAP, players: this.players.map((p) => p.id) });
 
     // Clear any current selection
     this.listSelection.clear();
@@ -1167,11 +2745,19 @@ export class Session {
     this.updateMessagingCard();
   }
 
-  protected storytellerSelectNominate(userId: string) {
+  protected storytellerSelectNominate(userId: string, operatorId?: string) {
     if (this.state.listMode.value !== ListMode.NOMINATE) return;
 
     // 无选择，选中
     if (this.listSelection.size == 0) {
+      if (
+        !this.state.exile.value &&
+        this.vote.hasNominated(userId) &&
+        !this.checkRepeatNomination(operatorId, `(met)${userId}(met) 今天已经发起过提名`)
+      ) {
+        return;
+      }
+
       this.listSelection.add(userId);
       this.updatePlayerList();
       return;
@@ -1181,15 +2767,76 @@ export class Session {
     const nominator = this.listSelection.values().next().value;
     if (!nominator) return;
 
+    if (
+      !this.state.exile.value &&
+      this.vote.wasNominated(userId) &&
+      !this.checkRepeatNomination(operatorId, `(met)${userId}(met) 今天已经被提名过`)
+    ) {
+      return;
+    }
+
     // 切换到投票模式
     this.listSelection = new Set();
     this.state.listMode.set(ListMode.VOTING);
     this.state.blindVoting.set(false);
     this.state.listArg.set(0);
 
-    this.vote.enterNomination(nominator, userId);
-    this.updatePlayerList();
-    return;
+    if (!this.state.exile.value) {
+      this.record({ type: HistoryType.NOMINATION, from: nominator, to: userId });
+    }
+    this.vote.enterNomination(nominator, userId);
+    this.updatePlayerList();
+    return;
+  }
+
+  /**
+   * 处理重复提名，提醒说书人
+   * @returns 是否允许继续提名
+   */
+  private checkRepeatNomination(operatorId: string | undefined, message: string) {
+    const block = this.state.blockRepeatNomination.value;
+    this.renderer.sendTemporaryMessage(
+      this.renderer.storytellerChannelId,
+      operatorId ?? this.storytellerId,
+      block ? `${message}，不能重复提名` : `${message}，请注意`,
+    );
+    return !block;
+  }
+
+  /**
+   * 处决当前的处决候选
+   */
+  protected storytellerExecute() {
+    if (!this.phase(Phase.DAY, Phase.ROAMING)) return;
+    if (this.state.voting.value) return;
+
+    const nominee = this.state.block.value.nominee;
+    if (!nominee) return;
+
+    const player = this.players.find((p) => p.id === nominee);
+    if (player) {
+      if (player.status === PlayerStatus.ALIVE) {
+        player.status = PlayerStatus.DEAD;
+      }
+      this.record({ type: HistoryType.EXECUTION, player: player.id });
+    }
+
+    // 每天只会处决一次
+    this.vote.clearBlock();
+    this.updatePlayerList();
+  }
+
+  /**
+   * 切换放逐投票，旅行者的放逐所有人都可以投票，包括死亡玩家
+   */
+  protected storytellerToggleExile() {
+    if (this.state.listMode.value !== ListMode.NOMINATE) return;
+    this.state.exile.set(!this.state.exile.value);
+  }
+
+  protected storytellerToggleRepeatNomination() {
+    if (this.state.listMode.value !== ListMode.NOMINATE) return;
+    this.state.blockRepeatNomination.set(!this.state.blockRepeatNomination.value);
   }
 
   /**
@@ -1329,6 +2976,27 @@ export class Session {
     this.vote.end();
   }
 
+  /**
+   * 暂停或继续提名投票的时钟指针
+   */
+  protected storytellerToggleClockHand() {
+    if (this.state.listMode.value !== ListMode.VOTING) return;
+
+    if (this.state.clockHand.value === ClockHand.PAUSED) {
+      this.vote.resume();
+    } else {
+      this.vote.pause();
+    }
+  }
+
+  /**
+   * 时钟指针后退一个座位
+   */
+  protected storytellerClockHandBack() {
+    if (this.state.listMode.value !== ListMode.VOTING) return;
+    this.vote.stepBack();
+  }
+
   protected storytellerVoteAdd() {
     if (this.state.listMode.value !== ListMode.VOTING) return;
     this.vote.voteAdd();
@@ -1381,6 +3049,103 @@ export class Session {
     this.vote.playerVoteTwo(userId);
   }
 
+  /**
+   * 玩家确认准备好了
+   */
+  protected playerReady(userId: string) {
+    if (!this.state.readyCheck.value) return;
+    if (!this.internalHasPlayer(userId)) return;
+    if (this.state.ready.value.includes(userId)) return;
+
+    this.state.ready.set([...this.state.ready.value, userId]);
+    this.updatePlayerList();
+
+    if (this.players.every((p) => this.state.ready.value.includes(p.id))) {
+      this.renderer.sendMessageToStoryteller(
+        ApiMessageType.CARD,
+        JSON.stringify(textCard('✋ 所有玩家都已准备好了')),
+      );
+    }
+  }
+
+  /**
+   * 玩家请求与相邻的玩家换座
+   * @param direction -1 为左边（上一个座位），1 为右边（下一个座位）
+   */
+  protected playerSeatSwap(userId: string, direction: string) {
+    if (!this.phase(Phase.PREPARING, Phase.FINISH_GOOD, Phase.FINISH_BAD)) return;
+
+    const offset = direction === '-1' ? -1 : direction === '1' ? 1 : 0;
+    if (offset === 0 || this.players.length < 2) return;
+
+    const index = this.players.findIndex((p) => p.id === userId);
+    if (index === -1) return;
+
+    // 座位首尾相连
+    const neighbour = this.players[(index + offset + this.players.length) % this.players.length]!;
+
+    // 每名玩家同时只能有一个换座请求
+    this.state.seatRequests.set([
+      ...this.state.seatRequests.value.filter((r) => r.from !== userId),
+      { from: userId, to: neighbour.id },
+    ]);
+    this.renderer.sendTemporaryMessage(
+      this.renderer.townsquareChannelId,
+      userId,
+      `已向说书人发送与 (met)${neighbour.id}(met) 换座的请求`,
+    );
+    this.updatePlayerList();
+  }
+
+  /**
+   * 玩家发起私聊，选择私聊对象
+   */
+  protected playerWhisper(userId: string) {
+    if (!this.phase(Phase.DAY)) return;
+    if (!this.internalHasPlayer(userId)) return;
+
+    const players = this.players
+      .map((p, index) => ({ id: p.id, slot: CIRCLED_NUMBERS[index + 1] || '⓪' }))
+      .filter((p) => p.id !== userId);
+
+    this.renderer.sendTemporaryCard(
+      this.renderer.townsquareChannelId,
+      userId,
+      whisperTargetCard(players),
+    );
+  }
+
+  /**
+   * 玩家选择了私聊对象，等待说书人同意
+   */
+  protected playerWhisperTarget(userId: string, targetId: string) {
+    if (!this.phase(Phase.DAY)) return;
+    if (userId === targetId) return;
+    if (!this.internalHasPlayer(userId) || !this.internalHasPlayer(targetId)) return;
+
+    const dynamicChannels = this.renderer.dynamicChannels;
+    if (dynamicChannels?.isWhispering(userId) || dynamicChannels?.isWhispering(targetId)) {
+      this.renderer.sendTemporaryMessage(
+        this.renderer.townsquareChannelId,
+        userId,
+        '你或对方正在私聊中，请稍后再试',
+      );
+      return;
+    }
+
+    // 每名玩家同时只能有一个私聊请求
+    this.state.whispers.set([
+      ...this.state.whispers.value.filter((w) => w.from !== userId),
+      { from: userId, to: targetId },
+    ]);
+    this.renderer.sendTemporaryMessage(
+      this.renderer.townsquareChannelId,
+      userId,
+      `已向说书人发送与 (met)${targetId}(met) 私聊的请求`,
+    );
+    this.updatePlayerList();
+  }
+
   /**
    * 玩家点击了刷新按钮
    */
@@ -1410,26 +3175,53 @@ export class Session {
     const dynamicChannels = this.renderer.dynamicChannels;
     if (!dynamicChannels) return;
 
-    const location = ROAMING_LOCATIONS[locationId];
-    if (!location) return;
-
-    if (location.isMain) {
+    if (locationId === MAIN_LOCATION) {
       dynamicChannels.roamUserToMainChannel(userId);
-    } else if (location.isCottage) {
+      return;
+    }
+
+    if (locationId === COTTAGE_LOCATION) {
       if (userId == this.storytellerId) {
         // 说书人点击小屋按钮时切换到小屋模式
         this.storytellerListCottage();
       } else {
         dynamicChannels.roamUserToCottage(userId);
       }
-    } else {
-      dynamicChannels.roamUserTo(location.name, userId);
+      return;
+    }
+
+    const location = this.state.locations.value[locationId];
+    if (!location) return;
+
+    // 说书人可以前往任何地点
+    if (userId !== this.storytellerId) {
+      const refuse = (message: string) =>
+        this.renderer.sendTemporaryMessage(this.renderer.townsquareChannelId, userId, message);
+
+      if (location.locked) {
+        refuse(`${locationChannelName(location)} 已被说书人锁定，暂时不能前往`);
+        return;
+      }
+
+      const channelId = dynamicChannels.getLocationChannel(locationChannelName(location));
+      const count = this.state.locationOccupancy.value[locationId] ?? 0;
+      if (
+        location.capacity &&
+        count >= location.capacity &&
+        this.activeUsers.get(userId) !== channelId
+      ) {
+        refuse(`${locationChannelName(location)} 人数已满，暂时不能前往`);
+        return;
+      }
     }
+
+    dynamicChannels.roamUserTo(locationChannelName(location), userId, location.capacity);
   }
 
   systemPlayerJoinVoiceChannel(userId: string, channelId: string) {
     if (this.destroyed) return;
 
+    this.recordLocationMove(userId, this.activeUsers.get(userId), channelId);
     this.activeUsers.set(userId, channelId);
 
     // 清除用户的不活跃定时器
@@ -1486,6 +3278,27 @@ export class Session {
       }
     }
 
+    // 玩家自行进入被锁定的地点时送回城镇广场，说书人所在的地点除外
+    const locked = this.state.locations.value.find(
+      (location) =>
+        location.locked &&
+        this.renderer.dynamicChannels?.getLocationChannel(locationChannelName(location)) ===
+          channelId,
+    );
+    if (
+      locked &&
+      this.internalHasPlayer(userId) &&
+      this.phase(Phase.ROAMING) &&
+      this.activeUsers.get(this.storytellerId) !== channelId
+    ) {
+      this.renderer.dynamicChannels?.roamUserToMainChannel(userId);
+      this.renderer.sendTemporaryMessage(
+        this.renderer.townsquareChannelId,
+        userId,
+        `${locationChannelName(locked)} 已被说书人锁定，暂时不能前往`,
+      );
+    }
+
     // 如果加入频道的是玩家，且现在是夜晚，但是玩家加入的主频道，将玩家移动到小屋
     if (
       this.internalHasPlayer(userId) &&
@@ -1591,6 +3404,32 @@ export class Session {
     return this.internalHasPlayer(userId);
   }
 
+  /**
+   * 向玩家的托梦卡片追加内容
+   */
+  private appendPrivateCard(userId: string, modules: any[]) {
+    let privateInfo = this.userInfoCards.get(userId);
+    if (!privateInfo) {
+      privateInfo = {
+        seq: 1,
+        card: [],
+      };
+      this.userInfoCards.set(userId, privateInfo);
+    }
+    if (privateInfo.card.length >= 10) {
+      privateInfo.card.shift();
+    }
+    privateInfo.card.push(...modules);
+    privateInfo.seq++;
+    this.sendPrivateCard(userId);
+
+    if (this.privateLog.length >= MAX_BROADCAST_PRIVATES) {
+      this.privateLog.shift();
+    }
+    this.privateLog.push({ to: userId, modules });
+    this.updateSpectatorView();
+  }
+
   private sendPrivateCard(userId: string) {
     const privateInfo = this.userInfoCards.get(userId) ?? {
       seq: 0,
@@ -1621,12 +3460,432 @@ export class Session {
     });
   }
 
+  /**
+   * 尝试将说书人的消息作为剧本加载
+   * @returns 消息是否被作为剧本处理
+   */
+  private async handleScriptMessage(event: TextMessageEvent) {
+    if (event.type !== MessageType.TEXT && event.type !== MessageType.KMARKDOWN) return false;
+
+    let script: SessionScript | null;
+    try {
+      script = await loadScriptFromMessage(event.content, event.type === MessageType.KMARKDOWN);
+    } catch (error: any) {
+      this.renderer.sendTemporaryMessage(
+        event.target_id,
+        event.author_id,
+        `剧本加载失败：${error?.message ?? error}`,
+      );
+      return true;
+    }
+
+    if (!script || this.destroyed) return !!script;
+
+    this.script = script;
+    this.renderer.sendMessageToTownsquare(ApiMessageType.CARD, JSON.stringify(scriptCard(script)));
+    this.renderer.sendTemporaryMessage(
+      event.target_id,
+      event.author_id,
+      `已加载剧本：${script.metadata.name}，角色表已发送至城镇广场`,
+    );
+    return true;
+  }
+
+  /**
+   * 切换说书人控制台的地点管理
+   */
+  protected storytellerToggleManageLocations() {
+    this.state.manageLocations.set(!this.state.manageLocations.value);
+  }
+
+  /**
+   * 锁定或解锁地点
+   */
+  protected storytellerToggleLocationLock(_: string, index: string) {
+    const locations = [...this.state.locations.value];
+    const location = locations[parseInt(index)];
+    if (!location) return;
+
+    locations[parseInt(index)] = { ...location, locked: !location.locked };
+    this.state.locations.set(locations);
+  }
+
+  /**
+   * 处理说书人发送的人数上限设置
+   * @returns 是否为人数上限消息
+   */
+  private handleCapacityMessage(event: TextMessageEvent) {
+    if (event.type !== MessageType.TEXT && event.type !== MessageType.KMARKDOWN) return false;
+
+    let command: { name: string; capacity?: number } | null;
+    try {
+      command = parseCapacity(event.content);
+    } catch (error: any) {
+      this.renderer.sendTemporaryMessage(
+        event.target_id,
+        event.author_id,
+        `人数上限设置失败：${error?.message ?? error}`,
+      );
+      return true;
+    }
+
+    if (!command) return false;
+
+    const locations = [...this.state.locations.value];
+    const index = locations.findIndex(
+      (location) =>
+        location.name === command.name || locationChannelName(location) === command.name,
+    );
+    const location = locations[index];
+    if (!location) {
+      this.renderer.sendTemporaryMessage(
+        event.target_id,
+        event.author_id,
+        `没有找到地点：${command.name}`,
+      );
+      return true;
+    }
+
+    locations[index] = { ...location, capacity: command.capacity };
+    this.state.locations.set(locations);
+    this.renderer.dynamicChannels?.setLocationCapacity(
+      locationChannelName(location),
+      command.capacity ?? MAX_CAPACITY,
+    );
+    this.renderer.sendTemporaryMessage(
+      event.target_id,
+      event.author_id,
+      command.capacity
+        ? `已将 ${locationChannelName(location)} 的人数上限设置为 ${command.capacity} 人`
+        : `已取消 ${locationChannelName(location)} 的人数上限`,
+    );
+    return true;
+  }
+
+  /**
+   * 处理说书人发送的地点列表
+   * @returns 是否为地点消息
+   */
+  private handleLocationMessage(event: TextMessageEvent) {
+    if (event.type !== MessageType.TEXT && event.type !== MessageType.KMARKDOWN) return false;
+
+    let locations: RoamingLocation[] | null;
+    try {
+      locations = parseLocations(event.content);
+    } catch (error: any) {
+      this.renderer.sendTemporaryMessage(
+        event.target_id,
+        event.author_id,
+        `地点设置失败：${error?.message ?? error}`,
+      );
+      return true;
+    }
+
+    if (!locations) return false;
+
+    // 自由活动时玩家可能正在地点中，不能修改
+    if (this.phase(Phase.ROAMING)) {
+      this.renderer.sendTemporaryMessage(
+        event.target_id,
+        event.author_id,
+        '自由活动时不能修改地点，请在其他阶段设置',
+      );
+      return true;
+    }
+
+    const isDefault = locations.length === 0;
+    if (isDefault) {
+      locations = DEFAULT_LOCATIONS;
+    }
+
+    this.state.locations.set(locations);
+    this.renderer.dynamicChannels?.pruneLocations(locations.map(locationChannelName));
+    this.renderer.sendTemporaryMessage(
+      event.target_id,
+      event.author_id,
+      isDefault
+        ? '已恢复默认地点'
+        : `已设置 ${locations.length} 个地点：${locations.map(locationChannelName).join('、')}`,
+    );
+    return true;
+  }
+
+  /**
+   * 处理说书人的文字指令
+   * @returns 是否为指令消息
+   */
+  private async handleCommandMessage(event: TextMessageEvent) {
+    if (event.type !== MessageType.TEXT && event.type !== MessageType.KMARKDOWN) return false;
+
+    const command = parseCommand(event.content);
+    if (!command) return false;
+
+    // 与按钮相同，会话锁定时不处理指令
+    if (this.locked) {
+      this.renderer.sendTemporaryMessage(
+        event.target_id,
+        event.author_id,
+        '(font)小镇暂时无法操作，指令没有执行(font)[danger]',
+      );
+      return true;
+    }
+
+    let result: string;
+    try {
+      result = await this.runCommand(command, event.author_id);
+    } catch (error: any) {
+      result = `(font)指令执行失败：${error?.message ?? error}(font)[danger]`;
+    }
+
+    this.renderer.sendTemporaryMessage(event.target_id, event.author_id, result);
+    return true;
+  }
+
+  /**
+   * 执行文字指令，指令与按钮调用相同的处理函数
+   * @returns 执行结果，执行失败时抛出错误
+   */
+  private async runCommand(command: StorytellerCommand, operatorId: string): Promise<string> {
+    const { name, args } = command;
+
+    const seat = (arg: string | undefined) => {
+      const index = parseSeat(arg, this.players.length);
+      const player = this.players[index]!;
+      return { player, label: `${CIRCLED_NUMBERS[index + 1] || '⓪'} (met)${player.id}(met)` };
+    };
+
+    // 阶段切换在不能切换时会直接忽略，通过阶段是否变化判断是否成功
+    const changePhase = async (run: () => Promise<void>, action: string) => {
+      const before = this.state.phase.value;
+      await run();
+      if (this.state.phase.value === before) {
+        throw new Error(`现在不能${action}`);
+      }
+      return `已${action}`;
+    };
+
+    // 投票状态只能通过退出投票离开，否则投票不会结算
+    const ensureNotVoting = () => {
+      if (this.state.listMode.value === ListMode.VOTING) {
+        throw new Error('正在投票，请先使用 `/vote exit` 退出投票');
+      }
+    };
+
+    // 临时切换到指令需要的列表模式，执行后恢复说书人原来的列表，进入投票时除外
+    const withListMode = (mode: ListMode, run: () => void) => {
+      ensureNotVoting();
+
+      const previousMode = this.state.listMode.value;
+      const previousArg = this.state.listArg.value;
+      const previousSelection = this.listSelection;
+      const previousExile = this.state.exile.value;
+
+      this.listSelection = new Set();
+      this.state.listArg.set(0);
+      this.state.listMode.set(mode);
+      try {
+        run();
+      } finally {
+        if (this.state.listMode.value !== ListMode.VOTING) {
+          this.listSelection = previousSelection;
+          this.state.listArg.set(previousArg);
+          this.state.listMode.set(previousMode);
+
+          // 提名列表的参数为每人的投票时间
+          if (previousMode === ListMode.NOMINATE) {
+            this.vote.voteTime = previousArg;
+            this.state.exile.set(previousExile);
+          }
+          this.updatePlayerList();
+        }
+      }
+    };
+
+    // 投票操作在不能执行时会直接忽略，通过投票状态是否变化判断是否成功
+    const voteSignature = () =>
+      JSON.stringify([
+        this.state.listMode.value,
+        this.state.votingStart.value,
+        this.state.clockHand.value,
+        this.players.map((player) => player.vote.status),
+      ]);
+    const changeVote = (run: () => void, action: string) => {
+      const before = voteSignature();
+      run();
+      if (voteSignature() === before) {
+        throw new Error(`现在不能${action}`);
+      }
+      return `已${action}`;
+    };
+
+    switch (name) {
+      case 'help':
+        return COMMAND_HELP;
+
+      case 'start':
+        return changePhase(() => this.storytellerGameStart(), '开始游戏');
+      case 'night':
+        return changePhase(() => this.storytellerGameNight(), '进入夜晚');
+      case 'cottage':
+        return changePhase(() => this.storytellerGameCottage(), '让玩家回到小屋');
+      case 'day':
+        return changePhase(() => this.storytellerGameDay(), '进入白天');
+      case 'roam':
+        return changePhase(() => this.storytellerGameRoaming(), '开始自由活动');
+
+      case 'timer': {
+        if (!this.phase(Phase.DAY, Phase.ROAMING)) {
+          throw new Error('只能在白天计时');
+        }
+        if (args[0] === 'cancel') {
+          this.storytellerPhaseTimerCancel();
+          return '已取消计时';
+        }
+
+        const minutes = Number(args[0]);
+        if (!Number.isInteger(minutes) || minutes <= 0 || minutes > 30) {
+          throw new Error('计时必须在 1 - 30 分钟之间');
+        }
+        this.storytellerPhaseTimer(operatorId, String(minutes * 60));
+        return `已开始 ${minutes} 分钟计时`;
+      }
+
+      case 'kill':
+      case 'status': {
+        const { player, label } = seat(args[0]);
+        if (name === 'kill' && player.status !== PlayerStatus.ALIVE) {
+          throw new Error(`${label} 已经死亡`);
+        }
+
+        withListMode(ListMode.STATUS, () => this.storytellerSelectStatus(player.id));
+
+        switch (player.status) {
+          case PlayerStatus.ALIVE:
+            return `${label} 已复活`;
+          case PlayerStatus.DEAD:
+            return `${label} 已死亡`;
+          default:
+            return `${label} 已死亡并用掉了投票`;
+        }
+      }
+
+      case 'swap': {
+        const first = seat(args[0]);
+        const second = seat(args[1]);
+        if (first.player === second.player) {
+          throw new Error('请选择两个不同的座位');
+        }
+
+        withListMode(ListMode.SWAP, () => {
+          this.storytellerSelectSwap(first.player.id);
+          this.storytellerSelectSwap(second.player.id);
+        });
+        return `已交换 ${first.label} 与 ${second.label} 的座位`;
+      }
+
+      case 'nominate': {
+        if (!this.phase(Phase.DAY, Phase.ROAMING)) {
+          throw new Error('只能在白天提名');
+        }
+
+        const nominator = seat(args[0]);
+        const nominee = seat(args[1]);
+
+        withListMode(ListMode.NOMINATE, () => {
+          this.storytellerListNominate();
+          this.storytellerSelectNominate(nominator.player.id, operatorId);
+          if (!this.listSelection.has(nominator.player.id)) {
+            throw new Error(`${nominator.label} 不能发起提名`);
+          }
+
+          this.storytellerSelectNominate(nominee.player.id, operatorId);
+          if (this.state.listMode.value !== ListMode.VOTING) {
+            throw new Error(`${nominee.label} 不能被提名`);
+          }
+        });
+        return `${nominator.label} 提名了 ${nominee.label}，使用 \`/vote start\` 开始投票`;
+      }
+
+      case 'vote': {
+        const action = args[0] ?? 'start';
+        if (action === 'normal') {
+          ensureNotVoting();
+          changeVote(() => this.storytellerNormalVote(), '发起普通投票');
+          return '已发起普通投票，使用 `/vote start` 开始投票';
+        }
+
+        if (this.state.listMode.value !== ListMode.VOTING) {
+          throw new Error('当前没有投票，请先使用 `/nominate` 提名或使用 `/vote normal`');
+        }
+
+        // 与按钮相同，开始统计后才能结算或重新开始
+        const started = this.state.votingStart.value > 0;
+        switch (action) {
+          case 'start':
+            if (started) throw new Error('投票已经开始，使用 `/vote stop` 重新开始');
+            return changeVote(() => this.storytellerStartVoting(), '开始投票');
+          case 'stop':
+            if (!started) throw new Error('投票还没有开始');
+            return changeVote(() => this.storytellerStopVoting(), '重置投票');
+          case 'end':
+            if (!started) throw new Error('投票还没有开始');
+            return changeVote(() => this.storytellerEndVoting(), '结算投票');
+          case 'exit':
+            this.storytellerListStatus();
+            return '已退出投票';
+          default:
+            throw new Error(`未知的投票操作：${action}`);
+        }
+      }
+
+      case 'execute': {
+        const nominee = this.state.block.value.nominee;
+        if (!nominee || this.state.voting.value || !this.phase(Phase.DAY, Phase.ROAMING)) {
+          throw new Error('现在没有可以处决的玩家');
+        }
+        this.storytellerExecute();
+        return `已处决 (met)${nominee}(met)`;
+      }
+
+      default:
+        throw new Error(`未知指令 \`/${name}\`，发送 \`/help\` 查看所有指令`);
+    }
+  }
+
   async handleStorytellerMessage(event: TextMessageEvent) {
     if (this.destroyed) return;
 
     // 删除消息，作为已经接收的响应
     this.renderer.deleteMessage(event.msg_id);
 
+    // 文字指令不会作为普通消息发送，其他斜杠开头的消息照常处理
+    if (await this.handleCommandMessage(event)) return;
+
+    // 剧本链接或剧本 JSON 用于加载剧本，不会作为普通消息发送
+    if (await this.handleScriptMessage(event)) return;
+
+    // 地点列表用于设置自由活动地点
+    if (this.handleLocationMessage(event)) return;
+    if (this.handleCapacityMessage(event)) return;
+
+    // 魔典模式下的消息用于编辑魔典，不会发送给玩家
+    if (this.state.listMode.value === ListMode.GRIMOIRE) {
+      this.handleGrimoireMessage(event);
+      return;
+    }
+
+    // 备注模式下的消息用于编辑备注，只有说书人可见
+    if (this.state.listMode.value === ListMode.NOTES) {
+      this.handleNotesMessage(event);
+      return;
+    }
+
+    // 发牌模式下的消息用于编辑角色袋
+    if (this.state.listMode.value === ListMode.DEAL) {
+      this.handleDealMessage(event);
+      return;
+    }
+
     let privateTarget: string | undefined;
 
     if (this.state.listMode.value === ListMode.PRIVATE) {
@@ -1699,20 +3958,8 @@ export class Session {
     if (!modules) return;
 
     if (privateTarget) {
-      let privateInfo = this.userInfoCards.get(privateTarget);
-      if (!privateInfo) {
-        privateInfo = {
-          seq: 1,
-          card: [],
-        };
-        this.userInfoCards.set(privateTarget, privateInfo);
-      }
-      if (privateInfo.card.length >= 10) {
-        privateInfo.card.shift();
-      }
-      privateInfo.card.push(...modules);
-      privateInfo.seq++;
-      this.sendPrivateCard(privateTarget);
+      this.record({ type: HistoryType.PRIVATE, player: privateTarget });
+      this.appendPrivateCard(privateTarget, modules);
     } else {
       if (this.state.townsquareCards.length >= 10) {
         this.state.townsquareCards.shift();
@@ -1724,11 +3971,10 @@ export class Session {
     this.updateMessagingCard();
   }
 
-  async destroy() {
-    if (this.destroyed) return;
-
-    this.destroyed = true;
-
+  /**
+   * 停止会话内所有的禁言与定时器
+   */
+  private cleanup() {
     // 解除所有活跃用户的禁言
     for (const userId of this.activeUsers.keys()) {
       MUTES.unmute(userId);
@@ -1743,6 +3989,37 @@ export class Session {
     // 清理会话空闲定时器
     this.clearSessionIdleTimer();
 
+    // 停止正在进行的投票
+    this.vote.stop();
+
+    // 停止阶段计时
+    this.timer.stop();
+
+    // 停止魔典直播
+    this.broadcast.stop();
+
+    // 停止位置汇总
+    clearInterval(this.locationSummaryTimer);
+  }
+
+  /**
+   * 挂起会话，停止处理所有交互，但保留频道以便重启后恢复
+   */
+  async suspend() {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    this.cleanup();
+
+    return this.renderer.suspend();
+  }
+
+  async destroy() {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    this.cleanup();
+
     return this.renderer.destroy();
   }
 }
@@ -0,0 +1,85 @@
+import type { GameState } from './session';
+
+/** 剩余多少秒时发出提醒 */
+const WARNING_SECONDS = 30;
+
+/**
+ * 阶段计时器
+ *
+ * 用于广场集会与自由活动的限时，剩余 30 秒时提醒，结束时回调
+ */
+export class PhaseTimer {
+  private warningTimer?: NodeJS.Timeout;
+  private expireTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly state: Pick<GameState, 'phaseTimer'>,
+    private readonly onWarning: () => void,
+    private readonly onExpire: () => void,
+  ) {}
+
+  /** 计时器是否正在运行 */
+  get running() {
+    return this.state.phaseTimer.value.end > 0;
+  }
+
+  /**
+   * 开始计时，会覆盖正在运行的计时
+   * @param seconds 时长（秒）
+   */
+  start(seconds: number) {
+    const start = Date.now();
+    this.schedule(start, start + seconds * 1000);
+  }
+
+  /**
+   * 从快照中恢复计时，已经结束的计时会被丢弃
+   */
+  restore(timer: { start: number; end: number }) {
+    if (timer.end <= Date.now()) return;
+    this.schedule(timer.start, timer.end);
+  }
+
+  /**
+   * 停止计时，不改变计时状态
+   */
+  stop() {
+    clearTimeout(this.warningTimer);
+    clearTimeout(this.expireTimer);
+    this.warningTimer = undefined;
+    this.expireTimer = undefined;
+  }
+
+  /**
+   * 取消计时
+   */
+  cancel() {
+    this.stop();
+
+    if (this.running) {
+      this.state.phaseTimer.set({ start: 0, end: 0 });
+    }
+  }
+
+  private schedule(start: number, end: number) {
+    this.cancel();
+    this.state.phaseTimer.set({ start, end });
+
+    const remaining = end - Date.now();
+    if (remaining > WARNING_SECONDS * 1000) {
+      this.warningTimer = setTimeout(
+        () => {
+          this.warningTimer = undefined;
+          this.onWarning();
+        },
+        remaining - WARNING_SECONDS * 1000,
+      );
+    }
+
+    this.expireTimer = setTimeout(() => {
+      this.expireTimer = undefined;
+      this.state.phaseTimer.set({ start: 0, end: 0 });
+      this.onExpire();
+    }, remaining);
+  }
+}
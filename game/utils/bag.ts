@@ -0,0 +1,73 @@
+import type { Role } from '../../scripts/validator';
+import { TEAM_NAMES } from './characters';
+
+/** 各阵营的角色数量 */
+export interface BagComposition {
+  townsfolk: number;
+  outsider: number;
+  minion: number;
+  demon: number;
+}
+
+/** 发牌时使用的阵营顺序 */
+export const BAG_TEAMS = ['townsfolk', 'outsider', 'minion', 'demon'] as const;
+
+/** 5-15 名玩家时的标准角色配置 */
+const BAG_COMPOSITIONS: Record<number, BagComposition> = {
+  5: { townsfolk: 3, outsider: 0, minion: 1, demon: 1 },
+  6: { townsfolk: 3, outsider: 1, minion: 1, demon: 1 },
+  7: { townsfolk: 5, outsider: 0, minion: 1, demon: 1 },
+  8: { townsfolk: 5, outsider: 1, minion: 1, demon: 1 },
+  9: { townsfolk: 5, outsider: 2, minion: 1, demon: 1 },
+  10: { townsfolk: 7, outsider: 0, minion: 2, demon: 1 },
+  11: { townsfolk: 7, outsider: 1, minion: 2, demon: 1 },
+  12: { townsfolk: 7, outsider: 2, minion: 2, demon: 1 },
+  13: { townsfolk: 9, outsider: 0, minion: 3, demon: 1 },
+  14: { townsfolk: 9, outsider: 1, minion: 3, demon: 1 },
+  15: { townsfolk: 9, outsider: 2, minion: 3, demon: 1 },
+};
+
+export const MIN_BAG_PLAYERS = 5;
+export const MAX_BAG_PLAYERS = 15;
+
+/**
+ * 获取指定人数的标准角色配置
+ * @returns 人数不在 5-15 之间时返回 null
+ */
+export const getBagComposition = (playerCount: number): BagComposition | null => {
+  return BAG_COMPOSITIONS[playerCount] ?? null;
+};
+
+/**
+ * 打乱数组（原地修改）
+ */
+export const shuffle = <T>(array: T[]) => {
+  // Fisher-Yates shuffle algorithm
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [array[i], array[j]] = [array[j]!, array[i]!];
+  }
+  return array;
+};
+
+/**
+ * 根据人数从剧本角色中随机组成角色袋
+ * @throws 人数不支持或剧本角色不足时抛出错误
+ */
+export const buildBag = (roles: Role[], playerCount: number): Role[] => {
+  const composition = getBagComposition(playerCount);
+  if (!composition) {
+    throw new Error(`发牌仅支持 ${MIN_BAG_PLAYERS}-${MAX_BAG_PLAYERS} 名玩家`);
+  }
+
+  const bag: Role[] = [];
+  for (const team of BAG_TEAMS) {
+    const candidates = shuffle(roles.filter((role) => role.team === team));
+    if (candidates.length < composition[team]) {
+      throw new Error(`剧本中的${TEAM_NAMES[team]}角色不足 ${composition[team]} 个`);
+    }
+    bag.push(...candidates.slice(0, composition[team]));
+  }
+
+  return bag;
+};
@@ -1,10 +1,13 @@
 import { BOT } from '../../bot';
 import { ApiMessageType } from '../../lib/api';
-import { LatestQueue } from './queue';
+import { LatestQueue, type QueueErrorHandler } from './queue';
 
 export interface Mountable {
   $mount(targetId: string): Promise<void>;
+  $attach(messageId: string): Promise<void>;
   $destroy(): Promise<void>;
+  $onError(handler: QueueErrorHandler): void;
+  readonly $id: string;
 }
 
 export type CardState<T extends object> = T & Mountable;
@@ -17,13 +20,19 @@ export const $card = <T extends object>(card: Card<T>): CardState<T> => {
   return new Proxy(card['state'] as CardState<T>, {
     get(target: T & CardState<T>, prop: string | symbol) {
       if (prop === '$mount') return card.mount.bind(card);
+      if (prop === '$attach') return card.attach.bind(card);
       if (prop === '$destroy') return card.destroy.bind(card);
+      if (prop === '$onError') return card.onError.bind(card);
+      if (prop === '$id') return card['id'];
       return target[prop as keyof T];
     },
 
     set(target: T & CardState<T>, prop: string | symbol, value: any) {
       if (prop === '$mount') return false;
+      if (prop === '$attach') return false;
       if (prop === '$destroy') return false;
+      if (prop === '$onError') return false;
+      if (prop === '$id') return false;
 
       // 设置新值
       (target as any)[prop] = value;
@@ -42,7 +51,10 @@ export const $card = <T extends object>(card: Card<T>): CardState<T> => {
 
     has(target: T & CardState<T>, prop: string | symbol) {
       if (prop === '$mount') return false;
+      if (prop === '$attach') return false;
       if (prop === '$destroy') return false;
+      if (prop === '$onError') return false;
+      if (prop === '$id') return false;
 
       return prop in target;
     },
@@ -140,6 +152,11 @@ export abstract class Card<T extends object> {
     }
   }
 
+  /** 设置卡片更新报错时的回调 */
+  onError(handler: QueueErrorHandler) {
+    this.queue.onError = handler;
+  }
+
   /** 将卡片挂载到指定频道 */
   async mount(targetId: string) {
     if (this.destroyed) throw new Error('卡片已销毁');
@@ -168,6 +185,32 @@ export abstract class Card<T extends object> {
     });
   }
 
+  /**
+   * 将卡片关联到已存在的消息，并使用当前状态重新渲染
+   *
+   * 用于恢复会话，消息不存在时会直接抛出错误
+   */
+  async attach(messageId: string) {
+    if (this.destroyed) throw new Error('卡片已销毁');
+    if (this.mounted) throw new Error('卡片已挂载');
+
+    const rendered = this.render(this.state);
+    await BOT.api.messageUpdate({
+      msg_id: messageId,
+      content: rendered.content,
+      template_id: rendered.template_id,
+    });
+
+    this.id = messageId;
+    this.mounted = true;
+
+    if (this.aggressiveCheck) {
+      this.lastRenderedString = JSON.stringify(rendered);
+    }
+
+    this.lastProcessTime = Date.now();
+  }
+
   /** 确保最小处理间隔 */
   private async ensureMinInterval() {
     const now = Date.now();
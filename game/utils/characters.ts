@@ -0,0 +1,61 @@
+import data from '../../scripts/data.json';
+import type { Role } from '../../scripts/validator';
+
+/** 魔典中记录的角色 */
+export interface GrimoireCharacter {
+  id: string;
+  name: string;
+  team: string;
+}
+
+export const TEAM_NAMES: Record<string, string> = {
+  townsfolk: '镇民',
+  outsider: '外来者',
+  minion: '爪牙',
+  demon: '恶魔',
+  traveller: '旅行者',
+  fabled: '传奇角色',
+};
+
+const normalize = (text: string) => {
+  return text.toLowerCase().replace(/[\s\-_'\\]/g, '');
+};
+
+/**
+ * 根据角色ID或角色名称查找角色
+ * @param query 角色ID或名称
+ * @param roles 优先查找的角色列表（例如剧本中的角色），找不到时会在所有角色中查找
+ */
+export const findRole = (query: string, roles: Role[] = []): Role | null => {
+  const key = normalize(query);
+  if (!key) return null;
+
+  for (const list of [roles, data as Role[]]) {
+    const role = list.find((role) => normalize(role.id) === key || normalize(role.name) === key);
+    if (role) return role;
+  }
+
+  return null;
+};
+
+/**
+ * 将角色转换为魔典中记录的角色
+ */
+export const toCharacter = (role: Role): GrimoireCharacter => {
+  return { id: role.id, name: role.name, team: role.team };
+};
+
+/**
+ * 根据角色ID或角色名称查找魔典角色
+ */
+export const findCharacter = (query: string, roles: Role[] = []): GrimoireCharacter | null => {
+  const role = findRole(query, roles);
+  return role ? toCharacter(role) : null;
+};
+
+/**
+ * 角色是否默认属于邪恶阵营
+ */
+export const isEvilTeam = (team: string) => {
+  return team === 'minion' || team === 'demon';
+};
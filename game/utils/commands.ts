@@ -0,0 +1,79 @@
+/** 说书人在说书人频道发送的文字指令 */
+export interface StorytellerCommand {
+  /** 指令名称，不含斜杠，统一为小写 */
+  name: string;
+  args: string[];
+}
+
+/** 所有文字指令，其他斜杠开头的消息仍作为普通消息处理 */
+const COMMAND_NAMES = new Set([
+  'start',
+  'night',
+  'cottage',
+  'day',
+  'roam',
+  'timer',
+  'kill',
+  'status',
+  'swap',
+  'nominate',
+  'vote',
+  'execute',
+  'help',
+]);
+
+/** 文字指令说明 */
+export const COMMAND_HELP = [
+  '**⌨️ 说书人指令**',
+  '`/start` 开始游戏',
+  '`/night` 进入夜晚',
+  '`/cottage` 让玩家回到小屋',
+  '`/day` 进入白天（广场集会）',
+  '`/roam` 开始自由活动',
+  '`/timer 分钟` 开始阶段计时，`/timer cancel` 取消计时',
+  '`/kill 座位` 让玩家死亡',
+  '`/status 座位` 切换玩家的存活状态',
+  '`/swap 座位 座位` 交换两名玩家的座位',
+  '`/nominate 提名者 被提名者` 发起提名',
+  '`/vote normal` 发起普通投票',
+  '`/vote start|stop|end|exit` 开始、重置、结算或退出投票',
+  '`/execute` 处决当前的处决候选',
+  '`/help` 显示指令说明',
+  '(font)座位为玩家列表中的编号，从 1 开始(font)[tips]',
+].join('\n');
+
+/**
+ * 解析说书人发送的文字指令
+ *
+ * @returns 不是指令消息或不是已知的指令时返回 null
+ */
+export const parseCommand = (content: string): StorytellerCommand | null => {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith('/')) return null;
+
+  const [name, ...args] = trimmed.slice(1).split(/\s+/);
+  if (!name || !COMMAND_NAMES.has(name.toLowerCase())) return null;
+
+  return { name: name.toLowerCase(), args };
+};
+
+/**
+ * 解析座位编号
+ * @param count 玩家数量
+ * @returns 从 0 开始的座位索引
+ */
+export const parseSeat = (arg: string | undefined, count: number): number => {
+  if (count === 0) {
+    throw new Error('还没有玩家入座');
+  }
+  if (!arg) {
+    throw new Error('请填写座位编号');
+  }
+
+  const seat = Number(arg);
+  if (!Number.isInteger(seat) || seat < 1 || seat > count) {
+    throw new Error(`座位编号必须在 1 - ${count} 之间：${arg}`);
+  }
+
+  return seat - 1;
+};
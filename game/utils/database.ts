@@ -0,0 +1,112 @@
+import { Database } from 'bun:sqlite';
+import type { SessionSnapshot } from '../session';
+
+export interface SessionRecord {
+  storyteller_id: string;
+  json_data: string;
+  updated_at: string;
+}
+
+/**
+ * 会话持久化
+ *
+ * 保存会话快照，机器人重启后可以从快照中恢复正在进行的游戏
+ */
+export class SessionDatabase {
+  private db: Database;
+
+  constructor(dbPath: string = './sessions.db') {
+    this.db = new Database(dbPath);
+
+    // Enable WAL mode for better concurrency and performance
+    this.db.exec('PRAGMA journal_mode = WAL;');
+
+    this.initializeDatabase();
+  }
+
+  private initializeDatabase() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        storyteller_id TEXT PRIMARY KEY,
+        json_data TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // 创建小镇的卡片，维护时需要更新
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS action_cards (
+        msg_id TEXT PRIMARY KEY
+      )
+    `);
+  }
+
+  /**
+   * 保存会话快照，已存在的快照会被覆盖
+   */
+  public save(snapshot: SessionSnapshot) {
+    this.db
+      .query(
+        `INSERT INTO sessions (storyteller_id, json_data, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(storyteller_id) DO UPDATE SET json_data = excluded.json_data, updated_at = CURRENT_TIMESTAMP`,
+      )
+      .run(snapshot.storytellerId, JSON.stringify(snapshot));
+  }
+
+  /**
+   * 删除会话快照
+   */
+  public remove(storytellerId: string) {
+    this.db.query('DELETE FROM sessions WHERE storyteller_id = ?').run(storytellerId);
+  }
+
+  /**
+   * 获取所有会话快照，无法解析的快照会被删除
+   */
+  public list(): SessionSnapshot[] {
+    const records = this.db.query('SELECT storyteller_id, json_data FROM sessions').all() as Pick<
+      SessionRecord,
+      'storyteller_id' | 'json_data'
+    >[];
+
+    const snapshots: SessionSnapshot[] = [];
+    for (const record of records) {
+      try {
+        snapshots.push(JSON.parse(record.json_data) as SessionSnapshot);
+      } catch (error) {
+        console.error(`💥 会话快照解析失败: ${record.storyteller_id}`, error);
+        this.remove(record.storyteller_id);
+      }
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * 记录创建小镇的卡片
+   */
+  public addActionCard(messageId: string) {
+    this.db.query('INSERT OR IGNORE INTO action_cards (msg_id) VALUES (?)').run(messageId);
+  }
+
+  /**
+   * 删除创建小镇的卡片记录
+   */
+  public removeActionCard(messageId: string) {
+    this.db.query('DELETE FROM action_cards WHERE msg_id = ?').run(messageId);
+  }
+
+  /**
+   * 获取所有创建小镇的卡片
+   */
+  public listActionCards(): string[] {
+    const records = this.db.query('SELECT msg_id FROM action_cards').all() as { msg_id: string }[];
+    return records.map((record) => record.msg_id);
+  }
+
+  public close(): void {
+    this.db.close();
+  }
+}
+
+export const DATABASE = new SessionDatabase();
@@ -1,16 +1,32 @@
-import { BOT, GAME } from '../../bot';
+import { BOT } from '../../bot';
 import { ApiChannelType, Permission, VoiceQuality } from '../../lib/api';
 import type { Register } from '../router';
+import type { GuildConfig } from '../../types';
 import { SequentialQueue } from './queue';
 
+/** 动态频道快照，用于恢复会话 */
+export interface DynamicChannelsSnapshot {
+  /** 地点名称 -> 频道ID */
+  channels: [string, string][];
+  /** 用户ID -> 小屋频道ID */
+  cottages: [string, string][];
+  showingLocations: boolean;
+  showingCottages: boolean;
+  /** 私聊频道ID -> 私聊中的用户ID */
+  whispers?: [string, string[]][];
+}
+
 /**
  * 动态频道管理
  */
 export class DynamicChannels {
   private channels = new Map<string, string>();
   private cottages = new Map<string, string>();
+  private whispers = new Map<string, { users: string[]; timer?: NodeJS.Timeout }>();
   private createdChannels = new Set<string>();
-  private queue: SequentialQueue = new SequentialQueue();
+  private queue: SequentialQueue = new SequentialQueue((error) =>
+    this.register.reportError(error, '动态频道'),
+  );
   private playerThrottleTimer = new Map<string, { time: number; timer: NodeJS.Timeout }>();
   private destroyed = false;
   private taskFinishTime = 0;
@@ -19,6 +35,7 @@ export class DynamicChannels {
   private showingCottages = false;
 
   constructor(
+    private guild: GuildConfig,
     private mainChannel: string,
     private storytellerId: string,
     private register: Register,
@@ -76,8 +93,9 @@ export class DynamicChannels {
    * 将用户移动到指定的频道名中，如果频道不存在则创建
    *
    * 该方法限速，玩家如果被限速则不会移动
+   * @param capacity 创建频道时的人数上限
    */
-  roamUserTo(name: string, userId: string) {
+  roamUserTo(name: string, userId: string, capacity = 20) {
     if (this.destroyed) return;
     if (this.isThrottled(userId)) return;
     this.throttle(userId);
@@ -93,12 +111,12 @@ export class DynamicChannels {
       }
 
       const newChannel = await BOT.api.channelCreate({
-        guild_id: GAME.guildId,
+        guild_id: this.guild.guildId,
         name: name,
         type: ApiChannelType.VOICE,
         voice_quality: VoiceQuality.HIGH,
-        limit_amount: 20,
-        parent_id: GAME.gameCategoryId,
+        limit_amount: capacity,
+        parent_id: this.guild.gameCategoryId,
       });
 
       this.register.addChannel(newChannel.id);
@@ -219,15 +237,15 @@ export class DynamicChannels {
       }
 
       // 获取用户信息
-      const user = await BOT.api.userView({ user_id: cottageUserId, guild_id: GAME.guildId });
+      const user = await BOT.api.userView({ user_id: cottageUserId, guild_id: this.guild.guildId });
       // 创建频道
       const newChannel = await BOT.api.channelCreate({
-        guild_id: GAME.guildId,
+        guild_id: this.guild.guildId,
         name: `🏠 ${user.nickname} 的小屋`,
         type: ApiChannelType.VOICE,
         voice_quality: VoiceQuality.HIGH,
         limit_amount: 20,
-        parent_id: GAME.cottageCategoryId,
+        parent_id: this.guild.cottageCategoryId,
       });
       this.register.addChannel(newChannel.id);
       this.createdChannels.add(newChannel.id);
@@ -289,9 +307,10 @@ export class DynamicChannels {
   }
 
   /**
-   * 允许角色查看所有动态频道
+   * 允许角色查看当前地点列表中的动态频道
+   * @param names 当前地点的频道名称
    */
-  showLocations() {
+  showLocations(names: string[]) {
     if (this.destroyed) return;
 
     this.showingLocations = true;
@@ -299,8 +318,9 @@ export class DynamicChannels {
     this.queue.push(async () => {
       const permissionUpdates: Promise<any>[] = [];
 
-      // 为所有动态频道添加角色权限
-      this.channels.forEach((channelId) => {
+      // 为地点列表中的动态频道添加角色权限
+      this.channels.forEach((channelId, name) => {
+        if (!names.includes(name)) return;
         permissionUpdates.push(
           BOT.api.channelRoleUpdate({
             channel_id: channelId,
@@ -473,9 +493,164 @@ export class DynamicChannels {
         return name;
       }
     }
+    if (this.whispers.has(channelId)) {
+      return '🤫 私聊';
+    }
     return null;
   }
 
+  /**
+   * 为玩家创建临时的私聊频道，时间到后将玩家送回城镇广场并删除频道
+   * @param users 私聊的玩家
+   * @param duration 私聊时长（毫秒）
+   */
+  whisper(users: string[], duration: number) {
+    if (this.destroyed) return;
+
+    this.queue.push(async () => {
+      const newChannel = await BOT.api.channelCreate({
+        guild_id: this.guild.guildId,
+        name: '🤫 私聊',
+        type: ApiChannelType.VOICE,
+        voice_quality: VoiceQuality.HIGH,
+        limit_amount: users.length + 1,
+        parent_id: this.guild.gameCategoryId,
+      });
+
+      this.register.addChannel(newChannel.id);
+      this.createdChannels.add(newChannel.id);
+      this.whispers.set(newChannel.id, {
+        users,
+        timer: setTimeout(() => this.endWhisper(newChannel.id), duration),
+      });
+
+      // 配置频道权限(仅私聊的玩家与说书人可见)
+      const result = await Promise.allSettled([
+        BOT.api.channelRoleUpdate({
+          channel_id: newChannel.id,
+          type: 'role_id',
+          value: this.roleId,
+          allow: Permission.CONNECT_VOICE,
+          deny: Permission.VIEW_CHANNELS,
+        }),
+        ...[...users, this.storytellerId].map((userId) =>
+          BOT.api.channelRoleUpdate({
+            channel_id: newChannel.id,
+            type: 'user_id',
+            value: userId,
+            allow: Permission.VIEW_CHANNELS | Permission.CONNECT_VOICE,
+          }),
+        ),
+      ]);
+      result.forEach((result) => {
+        if (result.status === 'rejected') {
+          console.error(result.reason);
+        }
+      });
+
+      await BOT.api.channelMoveUser(newChannel.id, users);
+      this.taskFinishTime = Date.now();
+    });
+  }
+
+  /**
+   * 结束私聊，将频道中的玩家送回城镇广场并删除频道
+   */
+  endWhisper(channelId: string) {
+    const whisper = this.whispers.get(channelId);
+    if (!whisper) return;
+
+    clearTimeout(whisper.timer);
+    this.whispers.delete(channelId);
+    if (this.destroyed) return;
+
+    this.createdChannels.delete(channelId);
+    this.register.removeChannel(channelId);
+
+    this.queue.push(async () => {
+      try {
+        if (whisper.users.length > 0) {
+          await BOT.api.channelMoveUser(this.mainChannel, whisper.users);
+        }
+      } catch (err) {
+        console.error(err);
+      }
+      try {
+        await BOT.api.channelDelete(channelId);
+      } catch (err) {
+        console.error(err);
+      }
+      this.taskFinishTime = Date.now();
+    });
+  }
+
+  /**
+   * 结束所有私聊
+   */
+  endWhispers() {
+    for (const channelId of [...this.whispers.keys()]) {
+      this.endWhisper(channelId);
+    }
+  }
+
+  /**
+   * 玩家是否正在私聊
+   */
+  isWhispering(userId: string) {
+    return [...this.whispers.values()].some((whisper) => whisper.users.includes(userId));
+  }
+
+  /**
+   * 根据频道名称获取地点频道ID
+   */
+  getLocationChannel(name: string) {
+    return this.channels.get(name) ?? null;
+  }
+
+  /**
+   * 设置地点频道的人数上限
+   */
+  setLocationCapacity(name: string, capacity: number) {
+    if (this.destroyed) return;
+
+    const channelId = this.channels.get(name);
+    if (!channelId) return;
+
+    this.queue.push(async () => {
+      try {
+        await BOT.api.channelUpdate({ channel_id: channelId, limit_amount: capacity });
+      } catch (err) {
+        console.error(err);
+      }
+      this.taskFinishTime = Date.now();
+    });
+  }
+
+  /**
+   * 删除不在地点列表中的动态频道
+   * @param names 保留的频道名称
+   */
+  pruneLocations(names: string[]) {
+    if (this.destroyed) return;
+
+    for (const [name, channelId] of [...this.channels.entries()]) {
+      if (names.includes(name)) continue;
+
+      this.channels.delete(name);
+      this.createdChannels.delete(channelId);
+      this.register.removeChannel(channelId);
+
+      this.queue.push(async () => {
+        try {
+          await BOT.api.channelDelete(channelId);
+        } catch (err) {
+          console.error(err);
+        }
+        this.taskFinishTime = Date.now();
+      });
+    }
+  }
+
   /** 如果用户离开了小镇，可以删除他的小屋 */
   destroyCottageForUser(userId: string) {
     const cottage = this.cottages.get(userId);
@@ -495,12 +670,82 @@ export class DynamicChannels {
     });
   }
 
+  /** 生成快照 */
+  snapshot(): DynamicChannelsSnapshot {
+    return {
+      channels: [...this.channels.entries()],
+      cottages: [...this.cottages.entries()],
+      showingLocations: this.showingLocations,
+      showingCottages: this.showingCottages,
+      whispers: [...this.whispers.entries()].map(([channelId, { users }]) => [channelId, users]),
+    };
+  }
+
+  /** 从快照中恢复已创建的频道 */
+  restore(snapshot: DynamicChannelsSnapshot) {
+    if (this.destroyed) return;
+
+    for (const [name, channelId] of snapshot.channels) {
+      this.register.addChannel(channelId);
+      this.createdChannels.add(channelId);
+      this.channels.set(name, channelId);
+    }
+
+    for (const [userId, channelId] of snapshot.cottages) {
+      this.register.addChannel(channelId);
+      this.createdChannels.add(channelId);
+      this.cottages.set(userId, channelId);
+    }
+
+    this.showingLocations = snapshot.showingLocations;
+    this.showingCottages = snapshot.showingCottages;
+
+    // 私聊的时间无法恢复，直接结束并将玩家送回城镇广场
+    for (const [channelId, users] of snapshot.whispers ?? []) {
+      this.register.addChannel(channelId);
+      this.createdChannels.add(channelId);
+      this.whispers.set(channelId, { users });
+      this.endWhisper(channelId);
+    }
+  }
+
+  /**
+   * 获取所有已创建的动态频道
+   */
+  getCreatedChannels() {
+    return [...this.createdChannels.values()];
+  }
+
+  /**
+   * 挂起，等待队列完成后停止工作，但保留所有频道以便之后恢复
+   */
+  async suspend() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+
+    await this.queue.destroy(false);
+
+    for (const timer of this.playerThrottleTimer.values()) {
+      clearTimeout(timer.timer);
+    }
+    this.playerThrottleTimer.clear();
+
+    for (const whisper of this.whispers.values()) {
+      clearTimeout(whisper.timer);
+    }
+  }
+
   async destroy() {
     if (this.destroyed) return;
     this.destroyed = true;
 
     await this.queue.destroy(true);
 
+    for (const whisper of this.whispers.values()) {
+      clearTimeout(whisper.timer);
+    }
+    this.whispers.clear();
+
     // 销毁所有频道
     const channels = [...this.createdChannels.values()];
 
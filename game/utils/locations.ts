@@ -0,0 +1,180 @@
+import type { ButtonTheme } from '../../lib/api';
+import type { ActionButton, ActionGroup } from '../../templates/types';
+
+/** 自由活动时可以前往的地点 */
+export interface RoamingLocation {
+  /** 地点名称 */
+  name: string;
+
+  /** 地点图标 */
+  emoji: string;
+
+  /** 按钮主题 */
+  theme: ButtonTheme;
+
+  /** 人数上限，不设置时不限制 */
+  capacity?: number;
+
+  /** 是否被说书人锁定，锁定后玩家不能自行前往 */
+  locked?: boolean;
+}
+
+/** 每个会话最多可以设置的地点数量 */
+export const MAX_LOCATIONS = 12;
+
+/** 语音频道的人数上限 */
+export const MAX_CAPACITY = 20;
+
+/** 地点按钮中玩家小屋的编号 */
+export const COTTAGE_LOCATION = -1;
+
+/** 地点按钮中城镇广场的编号 */
+export const MAIN_LOCATION = -2;
+
+/** 地点按钮可以使用的主题，支持中文颜色 */
+const THEMES: Record<string, ButtonTheme> = {
+  primary: 'primary',
+  success: 'success',
+  danger: 'danger',
+  warning: 'warning',
+  info: 'info',
+  secondary: 'secondary',
+  紫: 'primary',
+  绿: 'success',
+  红: 'danger',
+  黄: 'warning',
+  蓝: 'info',
+  灰: 'secondary',
+};
+
+const DEFAULT_EMOJI = '📍';
+
+/** 地点频道的名称 */
+export const locationChannelName = (location: RoamingLocation) =>
+  `${location.emoji} ${location.name}`;
+
+/**
+ * 生成地点按钮，末尾固定为玩家小屋与城镇广场
+ * @param occupancy 各地点的人数
+ * @param manage 说书人管理地点时，按钮用于切换锁定状态
+ */
+export const locationButtons = (
+  locations: RoamingLocation[],
+  occupancy: number[] = [],
+  manage = false,
+): ActionGroup[] => {
+  const buttons: ActionButton[] = locations.map((location, index) => {
+    const count = occupancy[index] ?? 0;
+    const info = location.capacity
+      ? ` ${count}/${location.capacity}`
+      : count > 0
+        ? ` ${count}`
+        : '';
+
+    return {
+      text: `${location.locked ? '🔒' : ''}${locationChannelName(location)}${info}`,
+      theme: location.locked && !manage ? 'secondary' : location.theme,
+      value: manage ? `[st]ToggleLocationLock|${index}` : '[lc]' + index,
+    };
+  });
+
+  if (!manage) {
+    buttons.push(
+      { text: '🏠 玩家小屋', theme: 'info', value: '[lc]' + COTTAGE_LOCATION },
+      { text: '⛲ 城镇广场', theme: 'danger', value: '[lc]' + MAIN_LOCATION },
+    );
+  }
+
+  const groups: ActionGroup[] = [];
+  for (let i = 0; i < buttons.length; i += 4) {
+    groups.push(buttons.slice(i, i + 4) as ActionGroup);
+  }
+  return groups;
+};
+
+/**
+ * 解析说书人发送的人数上限设置
+ *
+ * `上限 名称 人数` 设置地点的人数上限，`上限 名称` 取消人数上限
+ *
+ * @returns 不是人数上限消息时返回 null
+ */
+export const parseCapacity = (content: string): { name: string; capacity?: number } | null => {
+  const parts = content.trim().split(/\s+/);
+  if (parts[0] !== '上限' || parts.length < 2) return null;
+
+  const last = parts[parts.length - 1]!;
+  if (parts.length > 2 && /^\d+$/.test(last)) {
+    const capacity = parseInt(last);
+    if (capacity <= 0 || capacity > MAX_CAPACITY) {
+      throw new Error(`地点的人数上限必须在 1 - ${MAX_CAPACITY} 之间`);
+    }
+    return { name: parts.slice(1, -1).join(' '), capacity };
+  }
+
+  return { name: parts.slice(1).join(' ') };
+};
+
+/**
+ * 解析说书人发送的地点列表
+ *
+ * 第一行为 `地点`，之后每行一个地点：`图标 名称 主题 人数上限`，图标、主题与人数上限可以省略
+ * 只发送 `地点 默认` 时恢复默认地点
+ *
+ * @returns 不是地点消息时返回 null，恢复默认地点时返回空数组
+ */
+export const parseLocations = (content: string): RoamingLocation[] | null => {
+  const lines = content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line);
+
+  const header = lines.shift()?.split(/\s+/);
+  if (!header || header[0] !== '地点') return null;
+
+  if (header[1] === '默认' && lines.length === 0) return [];
+  if (header.length > 1) return null;
+
+  if (lines.length === 0) {
+    throw new Error('请在 `地点` 后每行填写一个地点');
+  }
+  if (lines.length > MAX_LOCATIONS) {
+    throw new Error(`最多只能设置 ${MAX_LOCATIONS} 个地点`);
+  }
+
+  const locations: RoamingLocation[] = [];
+  for (const line of lines) {
+    const match = line.match(/^(\p{Extended_Pictographic}\uFE0F?)\s*(.*)$/u);
+    const emoji = match?.[1] ?? DEFAULT_EMOJI;
+    const parts = (match ? (match[2] ?? '') : line).split(/\s+/).filter((part) => part);
+
+    let capacity: number | undefined;
+    const last = parts[parts.length - 1];
+    if (parts.length > 1 && last && /^\d+$/.test(last)) {
+      capacity = parseInt(last);
+      parts.pop();
+      if (capacity <= 0 || capacity > MAX_CAPACITY) {
+        throw new Error(`地点的人数上限必须在 1 - ${MAX_CAPACITY} 之间：${line}`);
+      }
+    }
+
+    let theme: ButtonTheme = 'secondary';
+    const themeName = parts[parts.length - 1];
+    if (parts.length > 1 && themeName && THEMES[themeName.toLowerCase()]) {
+      theme = THEMES[themeName.toLowerCase()]!;
+      parts.pop();
+    }
+
+    const name = parts.join(' ');
+    if (!name) {
+      throw new Error(`地点缺少名称：${line}`);
+    }
+    if (locations.some((location) => location.name === name)) {
+      throw new Error(`地点名称重复：${name}`);
+    }
+
+    locations.push({ name, emoji, theme, capacity });
+  }
+
+  return locations;
+};
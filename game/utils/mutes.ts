@@ -1,7 +1,9 @@
-import { BOT, GAME } from '../../bot';
+import { BOT } from '../../bot';
 import { LatestQueue, SequentialQueue } from './queue';
 
 interface UserMute {
+  /** 用户被禁言的服务器 */
+  guildId: string;
   muted: boolean;
   mutedQueue: LatestQueue;
 }
@@ -24,10 +26,11 @@ class Mutes {
 
   private destroyed = false;
 
-  private getOrCreateUser(userId: string) {
+  private getOrCreateUser(userId: string, guildId: string) {
     let user = this.users.get(userId);
     if (!user) {
       user = {
+        guildId,
         muted: false,
         mutedQueue: new LatestQueue(),
       };
@@ -50,23 +53,25 @@ class Mutes {
   /**
    * 禁言用户
    * @param userId 用户ID
+   * @param guildId 服务器ID
    */
-  mute(userId: string) {
+  mute(userId: string, guildId: string) {
     if (this.destroyed) return;
 
-    const user = this.getOrCreateUser(userId);
+    const user = this.getOrCreateUser(userId, guildId);
 
     if (!user.muted) {
       user.muted = true;
+      user.guildId = guildId;
 
       user.mutedQueue.push(async () => {
-        await BOT.api.guildMuteCreate(GAME.guildId, userId, 1);
+        await BOT.api.guildMuteCreate(guildId, userId, 1);
       });
     }
   }
 
   /**
-   * 解除用户禁言
+   * 解除用户禁言，在禁言时所在的服务器中解除
    * @param userId 用户ID
    */
   unmute(userId: string) {
@@ -78,13 +83,42 @@ class Mutes {
     if (user.muted) {
       user.muted = false;
 
+      const guildId = user.guildId;
       user.mutedQueue.push(async () => {
-        await BOT.api.guildMuteDelete(GAME.guildId, userId, 1);
+        await BOT.api.guildMuteDelete(guildId, userId, 1);
         this.tryCleanUpUser(userId);
       });
     }
   }
 
+  /**
+   * 列出所有被禁言的用户
+   */
+  list() {
+    return Array.from(this.users.entries())
+      .filter(([, user]) => user.muted)
+      .map(([userId, user]) => ({ userId, guildId: user.guildId }));
+  }
+
+  /**
+   * 强制解除用户禁言，用于清理卡住的禁言
+   *
+   * 用户不在禁言记录中时也会请求解除服务器禁言
+   * @param userId 用户ID
+   * @param guildId 服务器ID
+   */
+  async release(userId: string, guildId: string) {
+    if (this.destroyed) return;
+
+    const user = this.users.get(userId);
+    if (user?.muted) {
+      this.unmute(userId);
+      return;
+    }
+
+    await BOT.api.guildMuteDelete(guildId, userId, 1);
+  }
+
   /**
    * 销毁
    *
@@ -99,7 +133,7 @@ class Mutes {
       Array.from(this.users.entries()).map(([id, user]) => {
         user.muted = false;
         return user.mutedQueue.push(async () => {
-          await BOT.api.guildMuteDelete(GAME.guildId, id, 1);
+          await BOT.api.guildMuteDelete(user.guildId, id, 1);
         });
       }),
     );
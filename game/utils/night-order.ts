@@ -0,0 +1,92 @@
+import type { Role } from '../../scripts/validator';
+import { findRole } from './characters';
+
+/** 首个夜晚的爪牙信息顺序 */
+export const MINION_INFO_ORDER = 14;
+
+/** 首个夜晚的恶魔信息顺序 */
+export const DEMON_INFO_ORDER = 18;
+
+/** 需要唤醒爪牙与恶魔告知信息的最少人数 */
+const EVIL_INFO_PLAYERS = 7;
+
+/** 夜晚行动顺序中的一项 */
+export interface NightOrderItem {
+  /** 角色ID，爪牙信息与恶魔信息使用特殊ID */
+  id: string;
+
+  /** 显示名称 */
+  name: string;
+
+  /** 说书人提示 */
+  reminder: string;
+
+  /** 拥有该角色的玩家 */
+  players: string[];
+
+  /** 是否已完成 */
+  done: boolean;
+}
+
+/**
+ * 根据在场角色生成夜晚行动顺序
+ * @param players 玩家与其角色ID，按座位顺序
+ * @param roles 剧本中的角色，用于查找自定义角色
+ * @param first 是否为首个夜晚
+ * @param done 已完成的项
+ */
+export const buildNightOrder = (
+  players: { id: string; character?: string }[],
+  roles: Role[],
+  first: boolean,
+  done: Set<string>,
+): NightOrderItem[] => {
+  const entries = new Map<string, { order: number } & NightOrderItem>();
+
+  for (const player of players) {
+    if (!player.character) continue;
+
+    const existing = entries.get(player.character);
+    if (existing) {
+      existing.players.push(player.id);
+      continue;
+    }
+
+    const role = findRole(player.character, roles);
+    if (!role) continue;
+
+    const order = (first ? role.firstNight : role.otherNight) ?? 0;
+    if (order <= 0) continue;
+
+    entries.set(role.id, {
+      order,
+      id: role.id,
+      name: role.name,
+      reminder: (first ? role.firstNightReminder : role.otherNightReminder) ?? '',
+      players: [player.id],
+      done: done.has(role.id),
+    });
+  }
+
+  // 人数足够时首个夜晚需要告知爪牙与恶魔信息
+  if (first && players.length >= EVIL_INFO_PLAYERS) {
+    entries.set('_minion', {
+      order: MINION_INFO_ORDER,
+      id: '_minion',
+      name: '爪牙信息',
+      reminder: '唤醒所有爪牙，让他们互相认识，并向他们指出恶魔。',
+      players: [],
+      done: done.has('_minion'),
+    });
+    entries.set('_demon', {
+      order: DEMON_INFO_ORDER,
+      id: '_demon',
+      name: '恶魔信息',
+      reminder: '唤醒恶魔，向其指出爪牙，并展示三个不在场的善良角色。',
+      players: [],
+      done: done.has('_demon'),
+    });
+  }
+
+  return [...entries.values()].sort((a, b) => a.order - b.order).map(({ order, ...item }) => item);
+};
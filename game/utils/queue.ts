@@ -7,6 +7,12 @@ let counter = 0;
 let callbacks: (() => void)[] = [];
 let errorHandler: ((error: any) => void) | null = null;
 
+/** 队列任务报错时的回调 */
+export type QueueErrorHandler = (error: any) => void;
+
+/**
+ * 设置全局队列错误处理器，没有设置错误处理器的队列会使用该处理器
+ */
 export const onError = (handler: (error: any) => void) => {
   errorHandler = handler;
 };
@@ -33,6 +39,11 @@ export class SequentialQueue {
   private stopped = false;
   private queue: (() => Promise<void>)[] = [];
 
+  /**
+   * @param onError 任务报错时的回调，不设置时使用全局错误处理器
+   */
+  constructor(public onError?: QueueErrorHandler) {}
+
   public size() {
     return this.queue.length;
   }
@@ -51,9 +62,9 @@ export class SequentialQueue {
           await task();
           resolve();
         } catch (e) {
-          // log the error and notify the global handler
+          // log the error and notify the queue or global handler
           console.error(e);
-          errorHandler?.(e);
+          (this.onError ?? errorHandler)?.(e);
           resolve();
         } finally {
           counter--;
@@ -119,6 +130,11 @@ export class LatestQueue {
     reject: (reason?: any) => void;
   }[] = [];
 
+  /**
+   * @param onError 任务报错时的回调，不设置时使用全局错误处理器
+   */
+  constructor(public onError?: QueueErrorHandler) {}
+
   public size() {
     return this.queue.length;
   }
@@ -161,9 +177,9 @@ export class LatestQueue {
             await task();
             resolve();
           } catch (e) {
-            // log the error and notify the global handler
+            // log the error and notify the queue or global handler
             console.error(e);
-            errorHandler?.(e);
+            (this.onError ?? errorHandler)?.(e);
             resolve();
           } finally {
             counter--;
@@ -0,0 +1,122 @@
+import { base64UrlDecode, decodeAndDecompress } from '../../scripts/codec';
+import {
+  validateAndSeparateScript,
+  type RoleInput,
+  type ScriptInput,
+  type ValidatedScript,
+} from '../../scripts/validator';
+
+/** 小镇中加载的剧本 */
+export interface SessionScript extends ValidatedScript {
+  /** 剧本查看链接 */
+  url?: string;
+}
+
+/** 剧本服务器地址，未设置时只能通过剧本 JSON 加载剧本 */
+const SCRIPT_SERVER_URL = process.env.SCRIPT_SERVER_URL?.replace(/\/+$/, '');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const SCRIPT_LINK = SCRIPT_SERVER_URL
+  ? new RegExp(
+      `${escapeRegExp(SCRIPT_SERVER_URL)}/(s|z|b)/([A-Za-z0-9_\\-=]+)(?:/([A-Za-z0-9_\\-=]+))?`,
+    )
+  : null;
+
+/**
+ * 去除 KMarkdown 对标点符号的转义
+ */
+const unescapeKMarkdown = (text: string) => text.replace(/\\([^A-Za-z0-9\s])/g, '$1');
+
+/**
+ * 将剧本数据整理为剧本服务器使用的格式
+ *
+ * 支持官方剧本工具导出的数组格式（`_meta` 对象中记录剧本信息）
+ */
+const toScriptInput = (data: any): ScriptInput => {
+  const input: ScriptInput = Array.isArray(data) ? { roles: data } : { ...data };
+
+  if (Array.isArray(input.roles)) {
+    const meta = input.roles.find(
+      (role: RoleInput) => typeof role === 'object' && role?.id === '_meta',
+    ) as { name?: string; author?: string } | undefined;
+
+    if (meta) {
+      input.name = input.name || meta.name;
+      input.author = input.author || meta.author;
+      input.roles = input.roles.filter(
+        (role: RoleInput) => typeof role !== 'object' || role?.id !== '_meta',
+      );
+    }
+  }
+
+  return input;
+};
+
+/**
+ * 从剧本服务器获取已保存的剧本
+ */
+const fetchStoredScript = async (metadataId: string, rolesId: string) => {
+  const response = await fetch(`${SCRIPT_SERVER_URL}/api/script/${metadataId}/${rolesId}`, {
+    signal: AbortSignal.timeout(10000),
+  });
+
+  const data = (await response.json().catch(() => null)) as any;
+  if (!response.ok) {
+    throw new Error(data?.error ?? `剧本服务器请求失败 (${response.status})`);
+  }
+
+  return data;
+};
+
+/**
+ * 尝试从说书人消息中加载剧本
+ *
+ * 支持剧本服务器的 `/s/` `/z/` `/b/` 链接以及剧本 JSON
+ * @returns 消息不是剧本时返回 null，剧本无效时抛出错误
+ */
+export const loadScriptFromMessage = async (
+  content: string,
+  kmarkdown: boolean,
+): Promise<SessionScript | null> => {
+  const text = (kmarkdown ? unescapeKMarkdown(content) : content).trim();
+
+  const linkMatch = SCRIPT_LINK ? text.match(SCRIPT_LINK) : null;
+  if (linkMatch) {
+    const [url, type, first, second] = linkMatch as unknown as [string, string, string, string?];
+
+    let data: any;
+    try {
+      switch (type) {
+        case 's':
+          if (!second) throw new Error('剧本链接不完整');
+          data = await fetchStoredScript(first, second);
+          break;
+        case 'z':
+          data = JSON.parse(decodeAndDecompress(first));
+          break;
+        default:
+          data = JSON.parse(base64UrlDecode(first));
+          break;
+      }
+    } catch (error: any) {
+      throw new Error(`无法读取剧本链接：${error?.message ?? error}`);
+    }
+
+    return { ...validateAndSeparateScript(toScriptInput(data)), url };
+  }
+
+  if (!text.startsWith('{') && !text.startsWith('[')) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // 不是 JSON，作为普通消息处理
+    return null;
+  }
+
+  if (!Array.isArray(data) && !Array.isArray(data?.roles)) return null;
+
+  return validateAndSeparateScript(toScriptInput(data));
+};
@@ -1,5 +1,5 @@
-import { BOT, GAME } from '../../bot';
-import { SequentialQueue } from './queue';
+import { BOT } from '../../bot';
+import { SequentialQueue, type QueueErrorHandler } from './queue';
 
 interface User {
   roles: Set<number>;
@@ -13,6 +13,11 @@ export class UserRoles {
   private users: Map<string, User> = new Map();
   private roleId: number | null = null;
 
+  constructor(
+    private guildId: string,
+    private onError?: QueueErrorHandler,
+  ) {}
+
   private tryCleanUpUser(userId: string) {
     const user = this.users.get(userId);
     if (!user) return;
@@ -30,7 +35,7 @@ export class UserRoles {
     if (!user) {
       user = {
         roles: new Set(),
-        rolesQueue: new SequentialQueue(),
+        rolesQueue: new SequentialQueue(this.onError),
       };
       this.users.set(userId, user);
     }
@@ -47,7 +52,7 @@ export class UserRoles {
 
       user.rolesQueue.push(async () => {
         await BOT.api.roleGrant({
-          guild_id: GAME.guildId,
+          guild_id: this.guildId,
           user_id: userId,
           role_id: roleId,
         });
@@ -65,7 +70,7 @@ export class UserRoles {
 
       user.rolesQueue.push(async () => {
         await BOT.api.roleRevoke({
-          guild_id: GAME.guildId,
+          guild_id: this.guildId,
           user_id: userId,
           role_id: roleId,
         });
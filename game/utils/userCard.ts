@@ -1,7 +1,7 @@
 import { BOT } from '../../bot';
 import { ApiMessageType } from '../../lib/api';
 import type { Mountable } from './card';
-import { LatestQueue, SequentialQueue } from './queue';
+import { LatestQueue, SequentialQueue, type QueueErrorHandler } from './queue';
 
 /**
  * 用户卡片消息管理
@@ -14,6 +14,7 @@ export class UserCard implements Mountable {
   private id: string = '';
   private mounted: boolean = false;
   private destroyed = false;
+  private onError?: QueueErrorHandler;
 
   constructor(
     /** 默认消息，会在挂载时创建 */
@@ -38,10 +39,39 @@ export class UserCard implements Mountable {
     });
   }
 
+  /**
+   * 将卡片关联到已存在的消息
+   *
+   * 用于恢复会话，不会重置玩家已经收到的消息
+   */
+  async $attach(messageId: string) {
+    if (this.destroyed) throw new Error('卡片已销毁');
+    if (this.mounted) throw new Error('卡片已挂载');
+
+    // 确认消息仍然存在
+    await BOT.api.messageView({ msg_id: messageId });
+
+    this.id = messageId;
+    this.mounted = true;
+  }
+
+  get $id() {
+    return this.id;
+  }
+
+  /** 设置发送消息报错时的回调 */
+  $onError(handler: QueueErrorHandler) {
+    this.onError = handler;
+    this.globalQueue.onError = handler;
+    for (const queue of this.userQueue.values()) {
+      queue.onError = handler;
+    }
+  }
+
   private getUserQueue(user: string) {
     let queue = this.userQueue.get(user);
     if (!queue) {
-      queue = new LatestQueue();
+      queue = new LatestQueue(this.onError);
       this.userQueue.set(user, queue);
     }
     return queue;
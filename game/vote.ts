@@ -1,5 +1,25 @@
 import { CIRCLED_NUMBERS } from './consts';
-import { PlayerStatus, PlayerVoteStatus, type GameState, type PlayerState } from './session';
+import {
+  ClockHand,
+  PlayerStatus,
+  PlayerVoteStatus,
+  VoteModifier,
+  type ExecutionBlock,
+  type GameState,
+  type PlayerState,
+} from './session';
+
+/**
+ * 处决候选的说明文本
+ * @returns 没有候选时返回空字符串
+ */
+export const executionInfo = (block: ExecutionBlock) => {
+  if (block.votes <= 0) return '';
+  if (block.tied || !block.nominee) {
+    return `⚖️ (font)平票（${block.votes} 票），无人被处决(font)[warning]`;
+  }
+  return `⚖️ 即将被处决：(met)${block.nominee}(met) (font)（${block.votes} 票）(font)[danger]`;
+};
 
 /** 投票管理类 */
 export class VoteManager {
@@ -9,6 +29,9 @@ export class VoteManager {
   private _to = '';
   private _voteOffset = 0;
 
+  /** 提名投票的计票位置（相对起始玩家的偏移） */
+  private _position = 0;
+
   get voteTime() {
     return this._voteTime;
   }
@@ -42,6 +65,11 @@ export class VoteManager {
       | 'blindVoting'
       | 'voteDescription'
       | 'listArg'
+      | 'day'
+      | 'nominations'
+      | 'block'
+      | 'clockHand'
+      | 'exile'
     >,
     private readonly updatePlayerList: () => void,
   ) {}
@@ -50,7 +78,7 @@ export class VoteManager {
     if (this._startIndex === -1) {
       // 普通投票没有那么多数据
       const current = this.state.voteInfo.value;
-      current.count = `${this.state.blindVoting.value ? '闭眼' : ''}投票：${this.players.reduce((acc, cur) => acc + cur.vote.count, 0)}`;
+      current.count = `${this.state.blindVoting.value ? '闭眼' : ''}投票：${this.totalVotes()}`;
       current.status = '';
       this.state.voteInfo.set(current);
       return;
@@ -63,18 +91,143 @@ export class VoteManager {
       (p) => p.vote.status === PlayerVoteStatus.COUNTING,
     )?.id;
 
-    let requiredVotes = Math.ceil(
-      this.players.filter((p) => p.status === PlayerStatus.ALIVE).length / 2,
+    const requiredVotes = this.requiredVotes();
+
+    current.count = `${this.state.blindVoting.value ? '闭眼' : ''}投票：${this.totalVotes()} / ${requiredVotes}`;
+    current.status = `${countingPlayer != null ? `　　(font)${started ? '正在计入：' : '起始玩家：'}(font)[${started ? 'purple' : 'body'}](met)${countingPlayer}(met)` : ''}`;
+    if (this.state.clockHand.value === ClockHand.PAUSED) {
+      current.status += '　　(font)已暂停(font)[warning]';
+    }
+    this.state.voteInfo.set(current);
+  };
+
+  /** 当前是第几天 */
+  get day() {
+    return this.state.day.value;
+  }
+
+  /** 进入新的一天，清空当天的提名记录 */
+  newDay() {
+    this.state.day.set(this.state.day.value + 1);
+    this.state.nominations.set({ nominators: [], nominees: [] });
+    this.clearBlock();
+  }
+
+  /** 重置天数与提名记录 */
+  resetDay() {
+    this.state.day.set(0);
+    this.state.nominations.set({ nominators: [], nominees: [] });
+    this.clearBlock();
+  }
+
+  /** 清除处决候选 */
+  clearBlock() {
+    this.state.block.set({ nominee: null, votes: 0, tied: false });
+  }
+
+  /**
+   * 根据提名投票结果更新处决候选
+   *
+   * 票数达到要求且超过当前最高票时成为新的候选，与最高票相同时平票，无人被处决
+   */
+  private updateBlock(nominee: string, votes: number, required: number) {
+    if (votes < required) return;
+
+    const block = this.state.block.value;
+    if (votes > block.votes) {
+      this.state.block.set({ nominee, votes, tied: false });
+    } else if (votes === block.votes && block.nominee !== nominee) {
+      this.state.block.set({ nominee: null, votes, tied: true });
+    }
+  }
+
+  /** 玩家今天是否已经发起过提名 */
+  hasNominated(userId: string) {
+    return this.state.nominations.value.nominators.includes(userId);
+  }
+
+  /** 玩家今天是否已经被提名过 */
+  wasNominated(userId: string) {
+    return this.state.nominations.value.nominees.includes(userId);
+  }
+
+  /** 是否为放逐投票 */
+  isExile() {
+    return this._startIndex !== -1 && this.state.exile.value;
+  }
+
+  /**
+   * 玩家是否可以投票
+   *
+   * 放逐投票时所有人都可以投票
+   */
+  private canVote(player: PlayerState) {
+    return this.isExile() || player.voteModifier !== VoteModifier.NO_VOTE;
+  }
+
+  /** 玩家举手时计入的票数 */
+  private weight(player: PlayerState) {
+    if (this.isExile()) return 1;
+
+    switch (player.voteModifier) {
+      case VoteModifier.DOUBLE:
+        return 2;
+      case VoteModifier.NO_VOTE:
+        return 0;
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * 玩家实际计入的票数
+   *
+   * 双票玩家举一只手已经计为两票，举双手时不会再次翻倍
+   */
+  private votesOf(player: PlayerState) {
+    if (player.vote.count === 0) return 0;
+
+    const weight = this.weight(player);
+    if (weight === 0) return 0;
+    return Math.max(player.vote.count, weight);
+  }
+
+  /** 处决所需的票数，放逐需要所有玩家的半数 */
+  private requiredVotes() {
+    const requiredVotes = Math.ceil(
+      (this.isExile()
+        ? this.players.length
+        : this.players.filter((p) => p.status === PlayerStatus.ALIVE).length) / 2,
     );
 
     if (isNaN(requiredVotes) || !isFinite(requiredVotes)) {
-      requiredVotes = 0;
+      return 0;
     }
+    return requiredVotes;
+  }
 
-    current.count = `${this.state.blindVoting.value ? '闭眼' : ''}投票：${this.players.reduce((acc, cur) => acc + cur.vote.count, this._voteOffset)} / ${requiredVotes}`;
-    current.status = `${countingPlayer != null ? `　　(font)${started ? '正在计入：' : '起始玩家：'}(font)[${started ? 'purple' : 'body'}](met)${countingPlayer}(met)` : ''}`;
-    this.state.voteInfo.set(current);
-  };
+  /** 当前总票数 */
+  private totalVotes() {
+    return this.players.reduce((acc, cur) => acc + this.votesOf(cur), this._voteOffset);
+  }
+
+  /**
+   * 获取当前的投票结果
+   * @returns 还没有玩家的投票被计入时返回 null
+   */
+  result() {
+    if (!this.players.some((p) => p.vote.status === PlayerVoteStatus.COUNTED)) return null;
+
+    const nomination = this._startIndex !== -1;
+    return {
+      from: nomination ? this._from : undefined,
+      to: nomination ? this._to : undefined,
+      votes: this.totalVotes(),
+      required: nomination ? this.requiredVotes() : undefined,
+      exile: this.isExile() || undefined,
+      voters: this.players.filter((p) => p.vote.count > 0).map((p) => p.id),
+    };
+  }
 
   /**
    * 是否为提名投票
@@ -97,6 +250,18 @@ export class VoteManager {
     this._from = from;
     this._to = to;
 
+    // 记录今天的提名，放逐不算作提名
+    const nominations = this.state.nominations.value;
+    if (
+      !this.state.exile.value &&
+      (!nominations.nominators.includes(from) || !nominations.nominees.includes(to))
+    ) {
+      this.state.nominations.set({
+        nominators: [...new Set([...nominations.nominators, from])],
+        nominees: [...new Set([...nominations.nominees, to])],
+      });
+    }
+
     const index = (this.players.findIndex((p) => p.id === this._to) + 1) % this.players.length;
     this._startIndex = index;
 
@@ -112,7 +277,9 @@ export class VoteManager {
     const toSlot = CIRCLED_NUMBERS[this.players.findIndex((p) => p.id === this._to) + 1] || '⓪';
 
     this.state.voteDescription.set(
-      `${fromSlot} (met)${this.from}(met) 发起提名，投票(font)处决(font)[danger] ${toSlot} (met)${this.to}(met)`,
+      this.state.exile.value
+        ? `${fromSlot} (met)${this.from}(met) 发起放逐，所有人投票(font)放逐(font)[warning] ${toSlot} (met)${this.to}(met)`
+        : `${fromSlot} (met)${this.from}(met) 发起提名，投票(font)处决(font)[danger] ${toSlot} (met)${this.to}(met)`,
     );
     this.state.voteInfo.set({
       count: '',
@@ -123,6 +290,8 @@ export class VoteManager {
     // 禁用倒计时
     this.state.votingStart.set(0);
     this.state.votingEnd.set(0);
+    this._position = 0;
+    this.state.clockHand.set(ClockHand.NONE);
 
     this.updateVotingLine();
     this.updatePlayerList();
@@ -151,6 +320,8 @@ export class VoteManager {
     // 禁用倒计时
     this.state.votingStart.set(0);
     this.state.votingEnd.set(0);
+    this._position = 0;
+    this.state.clockHand.set(ClockHand.NONE);
     this.updatePlayerList();
   }
 
@@ -207,6 +378,7 @@ export class VoteManager {
     const player = this.players.find((p) => p.id === userId);
     if (!player) return;
     if (player.vote.status === PlayerVoteStatus.COUNTED) return;
+    if (!this.canVote(player)) return;
 
     player.vote.count = 1;
     this.updateVotingLine();
@@ -217,6 +389,7 @@ export class VoteManager {
     const player = this.players.find((p) => p.id === userId);
     if (!player) return;
     if (player.vote.status === PlayerVoteStatus.COUNTED) return;
+    if (!this.canVote(player)) return;
 
     player.vote.count = 2;
     this.updateVotingLine();
@@ -226,15 +399,28 @@ export class VoteManager {
   /**
    * 开始提名投票
    */
-  private async startNomination() {
+  private startNomination() {
+    this._position = 0;
+    this.runNomination();
+  }
+
+  /**
+   * 从当前计票位置开始转动时钟指针
+   */
+  private async runNomination() {
     try {
+      const playerCount = this.players.length;
+
+      // 按照剩余的座位数量计算倒计时
       const start = Date.now();
       this.state.votingStart.set(start);
-      this.state.votingEnd.set(start + this.voteTime * 1000 * Math.max(this.players.length, 1));
+      this.state.votingEnd.set(
+        start + this.voteTime * 1000 * Math.max(playerCount - this._position, 1),
+      );
+      this.state.clockHand.set(ClockHand.RUNNING);
 
-      const playerCount = this.players.length;
-      for (let i = 0; i < playerCount; i++) {
-        const index = (this.startIndex + i) % playerCount;
+      while (this._position < playerCount) {
+        const index = (this.startIndex + this._position) % playerCount;
         const player = this.players[index];
         if (!player) break;
         player.vote.status = PlayerVoteStatus.COUNTING;
@@ -242,8 +428,10 @@ export class VoteManager {
         this.updatePlayerList();
         await this.wait(this.voteTime * 1000);
         player.vote.status = PlayerVoteStatus.COUNTED;
+        this._position++;
       }
 
+      this.state.clockHand.set(ClockHand.FINISHED);
       this.updateVotingLine();
       this.updatePlayerList();
     } catch (err: any) {
@@ -255,6 +443,55 @@ export class VoteManager {
     }
   }
 
+  /**
+   * 暂停时钟指针，停在当前座位
+   */
+  pause() {
+    if (this.state.clockHand.value !== ClockHand.RUNNING) return;
+
+    this.stop();
+    this.state.clockHand.set(ClockHand.PAUSED);
+    // 暂停时不显示倒计时
+    this.state.votingEnd.set(0);
+    this.updateVotingLine();
+    this.updatePlayerList();
+  }
+
+  /**
+   * 从暂停的座位继续转动时钟指针
+   */
+  resume() {
+    if (this.state.clockHand.value !== ClockHand.PAUSED) return;
+    this.runNomination();
+  }
+
+  /**
+   * 时钟指针后退一个座位，重新计入上一名玩家的投票
+   */
+  stepBack() {
+    const clockHand = this.state.clockHand.value;
+    if (clockHand === ClockHand.NONE || this._position <= 0) return;
+
+    this.stop();
+
+    const playerCount = this.players.length;
+    const current = this.players[(this.startIndex + this._position) % playerCount];
+    if (current && this._position < playerCount) {
+      current.vote.status = PlayerVoteStatus.NONE;
+    }
+
+    this._position--;
+    const previous = this.players[(this.startIndex + this._position) % playerCount];
+    if (previous) {
+      previous.vote.status = PlayerVoteStatus.COUNTING;
+    }
+
+    this.state.clockHand.set(ClockHand.PAUSED);
+    this.state.votingEnd.set(0);
+    this.updateVotingLine();
+    this.updatePlayerList();
+  }
+
   /**
    * 开始普通投票
    */
@@ -308,10 +545,18 @@ export class VoteManager {
     this.players.forEach((p) => {
       p.vote.status = PlayerVoteStatus.COUNTED;
     });
+    if (this._startIndex !== -1) {
+      this._position = this.players.length;
+      this.state.clockHand.set(ClockHand.FINISHED);
+      this.updateVotingLine();
+    }
     this.updatePlayerList();
   }
 
-  private stop() {
+  /**
+   * 停止计时，不改变投票状态
+   */
+  stop() {
     if (this.voteTimer) {
       clearTimeout(this.voteTimer.timer);
       this.voteTimer.reject(new Error('stopped'));
@@ -325,15 +570,22 @@ export class VoteManager {
   exit() {
     this.stop();
 
-    if (this.isNomination()) {
+    // 放逐投票不会产生处决候选，也不会消耗投票标记
+    if (this.isNomination() && !this.isExile()) {
+      const result = this.result();
+      if (result?.to && result.required !== undefined) {
+        this.updateBlock(result.to, result.votes, result.required);
+      }
+
       for (const p of this.players) {
-        if (
-          p.status === PlayerStatus.DEAD &&
-          p.vote.count > 0 &&
-          p.vote.status === PlayerVoteStatus.COUNTED
-        ) {
+        if (p.vote.count <= 0 || p.vote.status !== PlayerVoteStatus.COUNTED) continue;
+
+        if (p.status === PlayerStatus.DEAD) {
           // 自动撤除玩家投票权
           p.status = PlayerStatus.DEAD_VOTED;
+        } else if (p.voteModifier === VoteModifier.TOKEN_ONLY) {
+          // 投票标记已经用掉
+          p.voteModifier = VoteModifier.NO_VOTE;
         }
       }
     }
@@ -341,6 +593,7 @@ export class VoteManager {
     this.state.voting.set(false);
     this.state.votingStart.set(0);
     this.state.votingEnd.set(0);
+    this.state.clockHand.set(ClockHand.NONE);
 
     this.updatePlayerList();
   }
@@ -1,18 +1,28 @@
-import { BOT, LOG } from './bot.ts';
+import { BOT, GUILDS, LOG, initializeGuild } from './bot.ts';
 import { MUTES } from './game/utils/mutes.ts';
 import { ROUTER } from './game/router.ts';
+import { DATABASE } from './game/utils/database.ts';
 import { setGlobalErrorHandler } from './game/utils/error.ts';
 import { onError as onQueueError } from './game/utils/queue.ts';
 import { ApiMessageType } from './lib/api.ts';
-import { introCard } from './templates/intro.ts';
-import { createActionCard, createdCard, creatingInfo, existedCard } from './templates/create.ts';
+import { isAdmin, processAdminCommand } from './admin.ts';
+import { MAINTENANCE } from './game/maintenance.ts';
+import {
+  createdCard,
+  createFailedInfo,
+  creatingInfo,
+  drainingInfo,
+  existedCard,
+} from './templates/create.ts';
+import type { Session } from './game/session.ts';
 import type { TextMessageEvent } from './lib/events.ts';
 import { MessageType } from './lib/events.ts';
 
+// 会话内的错误由路由器处理，只影响发生错误的会话
+// 其他错误只记录日志，不关闭机器人，避免一处错误导致所有游戏中断
 BOT.on('error', (error) => {
   console.error('💥 机器人错误:', error);
   LOG(`💥 机器人发生错误：${error.message}`);
-  shutdown();
 });
 
 // 设置全局错误处理器
@@ -20,47 +30,67 @@ setGlobalErrorHandler((error, context) => {
   const contextMsg = context ? ` (${context})` : '';
   console.error(`💥 全局错误${contextMsg}:`, error);
   LOG(`💥 全局错误${contextMsg}：${error.message}`);
-  shutdown();
 });
 
-// 设置队列错误监听器
+// 设置队列错误监听器，会话外的队列（如禁言）报错时使用
 onQueueError((error) => {
   console.error('💥 队列错误:', error);
   LOG(`💥 队列发生错误：${error.message || String(error)}`);
-  shutdown();
 });
 
 let shuttingDown = false;
-const shutdown = async () => {
+
+/**
+ * 关闭机器人
+ * @param suspend 是否保留会话，保留的会话会在重启后恢复
+ */
+const shutdown = async (suspend: boolean = false) => {
   if (shuttingDown) return;
 
   shuttingDown = true;
   console.log('\n🛑 正在关闭机器人...');
   LOG('🛑 机器人已下线');
   await MUTES.destroy();
-  await ROUTER.destroy();
+  if (suspend) {
+    await ROUTER.suspend();
+  } else {
+    await ROUTER.destroy();
+  }
+  DATABASE.close();
   BOT.disconnect();
 };
 
-// 处理进程信号
-process.on('SIGINT', shutdown);
-process.on('SIGTERM', shutdown);
+// 处理进程信号，正常关闭时保留会话
+process.on('SIGINT', () => shutdown(true));
+process.on('SIGTERM', () => shutdown(true));
+
+// 计划的维护开始时正常关闭，保留会话
+MAINTENANCE.onShutdown(() => shutdown(true));
 
 // 处理未捕获的异常和Promise拒绝
 process.on('uncaughtException', (error) => {
   console.error('💥 未捕获的异常:', error);
   LOG(`💥 未捕获的异常：${error.message}`);
-  shutdown();
 });
 
 process.on('unhandledRejection', (reason) => {
   console.error('💥 未处理的异步异常:', reason);
   LOG(`💥 未处理的异步异常：${reason instanceof Error ? reason.message : String(reason)}`);
-  shutdown();
 });
 
+/**
+ * 执行会话操作，报错时只影响该会话
+ */
+const runSessionHandler = async (session: Session, context: string, run: () => unknown) => {
+  try {
+    await run();
+  } catch (error) {
+    ROUTER.reportSessionError(session, error, context);
+  }
+};
+
 const processCardSend = async (event: TextMessageEvent) => {
-  if (!process.env.ADMIN_ID || event.author_id !== process.env.ADMIN_ID) {
+  if (!isAdmin(event)) {
     return;
   }
 
@@ -109,31 +139,6 @@ const processCardSend = async (event: TextMessageEvent) => {
   }
 };
 
-const processAdminCommand = async (event: TextMessageEvent) => {
-  if (process.env.ADMIN_ID) {
-    if (event.author_id !== process.env.ADMIN_ID || event.content !== '/setup') {
-      return;
-    }
-
-    // 删除消息
-    await BOT.api.messageDelete({ msg_id: event.msg_id });
-
-    // 发送介绍卡片
-    await BOT.api.messageCreate({
-      target_id: event.target_id,
-      type: ApiMessageType.CARD,
-      content: JSON.stringify(introCard),
-    });
-
-    // 发送操作卡片
-    await BOT.api.messageCreate({
-      target_id: event.target_id,
-      type: ApiMessageType.CARD,
-      content: JSON.stringify(createActionCard),
-    });
-  }
-};
-
 const routeMessage = (event: TextMessageEvent) => {
   const channel = event.target_id;
   const user = event.author_id;
@@ -144,28 +149,48 @@ const routeMessage = (event: TextMessageEvent) => {
     userSession.storytellerId !== user ||
     userSession.renderer.storytellerChannelId !== channel
   )
-    return;
+    return false;
 
   // 通知会话处理说书人消息
-  userSession.handleStorytellerMessage(event);
+  runSessionHandler(userSession, '说书人消息', () => userSession.handleStorytellerMessage(event));
+  return true;
 };
 
 BOT.onTextMessage(async (event) => {
   // 快速跳过机器人消息
   if (event.extra.author.bot) return;
 
-  // 处理托梦
-  routeMessage(event);
+  // 处理托梦与说书人指令，说书人频道中的消息不再作为管理指令处理
+  if (routeMessage(event)) return;
 
   // 处理卡片 /send 指令
   await processCardSend(event);
 
-  // 处理 /setup 指令
+  // 处理管理指令
   await processAdminCommand(event);
 });
 
 // 创建房间逻辑
-const createRoom = async (user: string, message: string, isPrivate: boolean = false) => {
+const createRoom = async (
+  guildId: string,
+  user: string,
+  message: string,
+  isPrivate: boolean = false,
+) => {
+  // 机器人不服务的服务器不能创建房间
+  const guild = GUILDS.get(guildId);
+  if (!guild) return;
+
+  // 维护前暂停创建新小镇，已有的小镇不受影响
+  if (MAINTENANCE.isDraining && !ROUTER.getSessionByUserId(user)) {
+    await BOT.api.messageUpdate({
+      msg_id: message,
+      content: JSON.stringify(drainingInfo),
+      temp_target_id: user,
+    });
+    return;
+  }
+
   // 更新消息为创建中
   await BOT.api.messageUpdate({
     msg_id: message,
@@ -173,8 +198,15 @@ const createRoom = async (user: string, message: string, isPrivate: boolean = fa
     temp_target_id: user,
   });
 
-  const result = await ROUTER.createSession(user, !isPrivate);
-  if (!result) return;
+  const result = await ROUTER.createSession(guild, user, !isPrivate);
+  if (!result) {
+    await BOT.api.messageUpdate({
+      msg_id: message,
+      content: JSON.stringify(createFailedInfo),
+      temp_target_id: user,
+    });
+    return;
+  }
 
   const { session, isNew } = result;
 
@@ -234,7 +266,9 @@ BOT.onMessageBtnClick(async (event) => {
     const handlerName = 'storyteller' + actionName;
     const handler = (session as any)[handlerName];
     if (handler && typeof handler === 'function') {
-      await handler.call(session, event.extra.body.user_id, ...args);
+      await runSessionHandler(session, handlerName, () =>
+        handler.call(session, event.extra.body.user_id, ...args),
+      );
     }
     return;
   }
@@ -261,7 +295,9 @@ BOT.onMessageBtnClick(async (event) => {
     const userId = event.extra.body.user_id;
     const handler = (userSession as any)[handlerName];
     if (handler && typeof handler === 'function') {
-      await handler.call(userSession, userId, ...args);
+      await runSessionHandler(userSession, handlerName, () =>
+        handler.call(userSession, userId, ...args),
+      );
     }
     return;
   }
@@ -282,7 +318,9 @@ BOT.onMessageBtnClick(async (event) => {
     const location = Number(value.slice(4));
     if (isNaN(location)) return;
 
-    userSession.locationSet(event.extra.body.user_id, location);
+    await runSessionHandler(userSession, 'locationSet', () =>
+      userSession.locationSet(event.extra.body.user_id, location),
+    );
     return;
   }
 
@@ -301,24 +339,51 @@ BOT.onMessageBtnClick(async (event) => {
     const handlerName = 'storytellerSelect' + action;
     const handler = (session as any)[handlerName];
     if (handler && typeof handler === 'function') {
-      await handler.call(session, targetUserId, event.extra.body.user_id);
+      await runSessionHandler(session, handlerName, () =>
+        handler.call(session, targetUserId, event.extra.body.user_id),
+      );
     }
     return;
   }
 
-  switch (value) {
-    case 'createRoom':
-      await createRoom(event.extra.body.user_id, event.extra.body.msg_id);
-      break;
-    case 'createPublicRoom':
-      await createRoom(event.extra.body.user_id, event.extra.body.msg_id, false);
-      break;
-    case 'createPrivateRoom':
-      await createRoom(event.extra.body.user_id, event.extra.body.msg_id, true);
-      break;
+  if (value === 'createRoom' || value === 'createPublicRoom' || value === 'createPrivateRoom') {
+    // 按钮事件不一定带有服务器ID，从频道中查询
+    const guildId =
+      event.extra.body.guild_id ||
+      (await BOT.api.channelView({ target_id: event.extra.body.target_id })).guild_id;
+    if (!guildId) return;
+
+    await createRoom(
+      guildId,
+      event.extra.body.user_id,
+      event.extra.body.msg_id,
+      value === 'createPrivateRoom',
+    );
+  }
+});
+
+// 机器人加入服务器时初始化服务器
+BOT.onSelfJoinedGuild(async (event) => {
+  const guildId = event.extra.body.guild_id;
+  try {
+    if (await initializeGuild(guildId)) {
+      LOG(`➕ 机器人加入了服务器: ${guildId}`);
+    }
+  } catch (error) {
+    console.error(`💥 服务器初始化失败: ${guildId}`, error);
   }
 });
 
+// 机器人退出服务器时清理服务器中的会话
+BOT.onSelfExitedGuild(async (event) => {
+  const guildId = event.extra.body.guild_id;
+  if (!GUILDS.has(guildId)) return;
+
+  ROUTER.removeGuild(guildId);
+  GUILDS.delete(guildId);
+  LOG(`➖ 机器人退出了服务器: ${guildId}`);
+});
+
 // 语音频道加入事件处理器
 BOT.onJoinedChannel(async (event) => {
   const user = event.extra.body.user_id;
@@ -333,3 +398,13 @@ BOT.onExitedChannel(async (event) => {
 
   ROUTER.systemUserLeaveVoiceChannel(user);
 });
+
+// 恢复重启前保存的会话
+const restored = await ROUTER.restore();
+if (restored > 0) {
+  console.log(`🔄 已恢复 ${restored} 个小镇`);
+  LOG(`🔄 已恢复 ${restored} 个小镇`);
+}
+
+// 维护前禁用的创建小镇卡片在重启后恢复
+MAINTENANCE.updateActionCards();
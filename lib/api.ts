@@ -284,6 +284,47 @@ export interface ChannelPermissionUser {
   deny: number;
 }
 
+/**
+ * Guild information
+ */
+export interface GuildInfo {
+  id: string;
+  name: string;
+  topic: string;
+  user_id: string;
+  /** Owner of the guild */
+  master_id: string;
+  icon: string;
+  notify_type: number;
+  region: string;
+  enable_open: boolean;
+  open_id: string;
+  default_channel_id: string;
+  welcome_channel_id: string;
+}
+
+/**
+ * Guild list response with pagination
+ */
+export interface GuildListResponse {
+  items: GuildInfo[];
+  meta: {
+    page: number;
+    page_total: number;
+    page_size: number;
+    total: number;
+  };
+  sort: any;
+}
+
+/**
+ * Parameters for getting guild list
+ */
+export interface GetGuildListParams {
+  page?: number;
+  page_size?: number;
+}
+
 /**
  * Channel information
  */
@@ -1237,6 +1278,94 @@ export interface ThreadPostListResponse {
   items: ThreadPost[];
 }
 
+/**
+ * HTTP error returned by KOOK API
+ */
+export class KookHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    /** Seconds until the rate limit resets, only present for 429 responses */
+    public readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = 'KookHttpError';
+  }
+}
+
+/** Maximum number of retries for transient failures */
+const MAX_RETRIES = 3;
+
+/** Base delay of the exponential backoff in milliseconds */
+const RETRY_BASE_DELAY = 500;
+
+/**
+ * Whether the error is a network/timeout error (not HTTP error)
+ */
+const isNetworkError = (error: any): boolean => {
+  if (error instanceof KookHttpError) return false;
+
+  // Check for common network error patterns
+  if (error.name === 'AbortError') return true; // Timeout
+  if (error.name === 'TypeError' && error.message.includes('fetch')) return true; // Network error
+  if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') return true; // DNS/Connection errors
+  if (error.message.includes('network') || error.message.includes('timeout')) return true;
+  return false;
+};
+
+/**
+ * Whether the failed request can be retried
+ *
+ * Rate limited requests are rejected before being processed, so they are always safe to retry.
+ * Server errors and timeouts may happen after the request has been committed, so they are only
+ * retried for idempotent requests; other requests keep a single retry for network errors.
+ */
+const isRetryable = (error: any, retries: number, idempotent: boolean): boolean => {
+  if (error instanceof KookHttpError) {
+    if (error.status === 429) return true;
+    return idempotent && error.status >= 500;
+  }
+
+  if (!isNetworkError(error)) return false;
+  return idempotent || retries === 0;
+};
+
+/**
+ * Retry a request with exponential backoff, only transient failures are retried
+ * @param idempotent Whether the request can be repeated without side effects
+ */
+const withRetry = async <T>(
+  attempt: () => Promise<T>,
+  idempotent: boolean,
+  debug: boolean,
+): Promise<T> => {
+  for (let retries = 0; ; retries++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (debug) {
+        console.error(`[API] Request failed (attempt ${retries + 1}):`, error);
+      }
+
+      // Don't retry client errors or API errors
+      if (retries >= MAX_RETRIES || !isRetryable(error, retries, idempotent)) {
+        throw error;
+      }
+
+      // Rate limited requests wait until the limit resets
+      const delay =
+        error instanceof KookHttpError && error.retryAfter !== undefined
+          ? error.retryAfter * 1000
+          : RETRY_BASE_DELAY * 2 ** retries;
+
+      if (debug) {
+        console.log(`[API] Retrying request in ${delay}ms...`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+};
+
 /**
  * KOOK HTTP API Client
  */
@@ -1288,16 +1417,6 @@ export class KookApiClient {
       }
     }
 
-    // Helper function to determine if error is a network/timeout error (not HTTP error)
-    const isNetworkError = (error: any): boolean => {
-      // Check for common network error patterns
-      if (error.name === 'AbortError') return true; // Timeout
-      if (error.name === 'TypeError' && error.message.includes('fetch')) return true; // Network error
-      if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') return true; // DNS/Connection errors
-      if (error.message.includes('network') || error.message.includes('timeout')) return true;
-      return false;
-    };
-
     // Helper function to make a single request attempt
     const makeRequestAttempt = async (): Promise<KookApiResponse<T>> => {
       const abortController = new AbortController();
@@ -1318,7 +1437,12 @@ export class KookApiClient {
           try {
             body = await response.text();
           } catch (error) {}
-          throw new Error(`HTTP ${response.status}: ${response.statusText}\n${body}`);
+          const reset = response.headers.get('X-Rate-Limit-Reset');
+          throw new KookHttpError(
+            response.status,
+            `HTTP ${response.status}: ${response.statusText}\n${body}`,
+            response.status === 429 && reset ? Number(reset) || undefined : undefined,
+          );
         }
 
         const data = (await response.json()) as KookApiResponse<T>;
@@ -1339,34 +1463,8 @@ export class KookApiClient {
       }
     };
 
-    // First attempt
-    try {
-      return await makeRequestAttempt();
-    } catch (error) {
-      if (this.debug) {
-        console.error(`[API] Request failed (attempt 1):`, error);
-      }
-
-      // Only retry for network/timeout errors, not HTTP errors
-      if (isNetworkError(error)) {
-        if (this.debug) {
-          console.log(`[API] Retrying request due to network error...`);
-        }
-
-        // Second attempt (retry once)
-        try {
-          return await makeRequestAttempt();
-        } catch (retryError) {
-          if (this.debug) {
-            console.error(`[API] Request failed (attempt 2):`, retryError);
-          }
-          throw retryError;
-        }
-      } else {
-        // Don't retry HTTP errors or API errors
-        throw error;
-      }
-    }
+    // Only GET requests are idempotent, POST requests may create duplicates when repeated
+    return withRetry(makeRequestAttempt, method === 'GET', this.debug);
   }
 
   /**
@@ -1389,16 +1487,6 @@ export class KookApiClient {
       console.log(`[API] FormData:`, Array.from(formData.entries()));
     }
 
-    // Helper function to determine if error is a network/timeout error (not HTTP error)
-    const isNetworkError = (error: any): boolean => {
-      // Check for common network error patterns
-      if (error.name === 'AbortError') return true; // Timeout
-      if (error.name === 'TypeError' && error.message.includes('fetch')) return true; // Network error
-      if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') return true; // DNS/Connection errors
-      if (error.message.includes('network') || error.message.includes('timeout')) return true;
-      return false;
-    };
-
     // Helper function to make a single request attempt
     const makeRequestAttempt = async (): Promise<KookApiResponse<T>> => {
       const abortController = new AbortController();
@@ -1419,7 +1507,12 @@ export class KookApiClient {
           try {
             body = await response.text();
           } catch (error) {}
-          throw new Error(`HTTP ${response.status}: ${response.statusText}\n${body}`);
+          const reset = response.headers.get('X-Rate-Limit-Reset');
+          throw new KookHttpError(
+            response.status,
+            `HTTP ${response.status}: ${response.statusText}\n${body}`,
+            response.status === 429 && reset ? Number(reset) || undefined : undefined,
+          );
         }
 
         const data = (await response.json()) as KookApiResponse<T>;
@@ -1440,34 +1533,7 @@ export class KookApiClient {
       }
     };
 
-    // First attempt
-    try {
-      return await makeRequestAttempt();
-    } catch (error) {
-      if (this.debug) {
-        console.error(`[API] Request failed (attempt 1):`, error);
-      }
-
-      // Only retry for network/timeout errors, not HTTP errors
-      if (isNetworkError(error)) {
-        if (this.debug) {
-          console.log(`[API] Retrying request due to network error...`);
-        }
-
-        // Second attempt (retry once)
-        try {
-          return await makeRequestAttempt();
-        } catch (retryError) {
-          if (this.debug) {
-            console.error(`[API] Request failed (attempt 2):`, retryError);
-          }
-          throw retryError;
-        }
-      } else {
-        // Don't retry HTTP errors or API errors
-        throw error;
-      }
-    }
+    return withRetry(makeRequestAttempt, false, this.debug);
   }
 
   /**
@@ -1545,6 +1611,24 @@ export class KookApiClient {
     });
   }
 
+  /**
+   * Get the list of guilds the bot has joined
+   */
+  async guildList(params: GetGuildListParams = {}): Promise<GuildListResponse> {
+    const response = await this.makeRequest<GuildListResponse>('/guild/list', 'GET', params);
+    return response.data;
+  }
+
+  /**
+   * Get guild details
+   */
+  async guildView(guildId: string): Promise<GuildInfo> {
+    const response = await this.makeRequest<GuildInfo>('/guild/view', 'GET', {
+      guild_id: guildId,
+    });
+    return response.data;
+  }
+
   /**
    * Mute user in guild (server mute)
    */
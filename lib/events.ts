@@ -199,6 +199,7 @@ export interface MessageBtnClickEvent extends SystemMessageEvent {
       value: string;
       target_id: string;
       user_info: User;
+      guild_id?: string;
     }
   >;
 }
@@ -455,6 +456,8 @@ export type JoinedChannelHandler = (event: JoinedChannelEvent) => void | Promise
 export type ExitedChannelHandler = (event: ExitedChannelEvent) => void | Promise<void>;
 export type UserUpdatedHandler = (event: UserUpdatedEvent) => void | Promise<void>;
 export type MessageBtnClickHandler = (event: MessageBtnClickEvent) => void | Promise<void>;
+export type SelfJoinedGuildHandler = (event: SelfJoinedGuildEvent) => void | Promise<void>;
+export type SelfExitedGuildHandler = (event: SelfExitedGuildEvent) => void | Promise<void>;
 export type ReactionHandler = (event: ReactionEvent) => void | Promise<void>;
 export type MessageUpdatedHandler = (event: UpdatedMessageEvent) => void | Promise<void>;
 export type MessageDeletedHandler = (event: DeletedMessageEvent) => void | Promise<void>;
@@ -579,6 +582,20 @@ export class TypedEventManager extends EventTarget {
     });
   }
 
+  onSelfJoinedGuild(handler: SelfJoinedGuildHandler): void {
+    this.addEventListener(SystemEventType.SELF_JOINED_GUILD, (event: Event) => {
+      const customEvent = event as CustomEvent<SelfJoinedGuildEvent>;
+      this.safeExecuteHandler(() => handler(customEvent.detail));
+    });
+  }
+
+  onSelfExitedGuild(handler: SelfExitedGuildHandler): void {
+    this.addEventListener(SystemEventType.SELF_EXITED_GUILD, (event: Event) => {
+      const customEvent = event as CustomEvent<SelfExitedGuildEvent>;
+      this.safeExecuteHandler(() => handler(customEvent.detail));
+    });
+  }
+
   onReactionAdded(handler: ReactionHandler): void {
     this.addEventListener(SystemEventType.ADDED_REACTION, (event: Event) => {
       const customEvent = event as CustomEvent<ReactionEvent>;
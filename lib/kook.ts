@@ -9,6 +9,8 @@ import {
   type ExitedChannelHandler,
   type UserUpdatedHandler,
   type MessageBtnClickHandler,
+  type SelfJoinedGuildHandler,
+  type SelfExitedGuildHandler,
   type ReactionHandler,
   type MessageUpdatedHandler,
   type MessageDeletedHandler,
@@ -1713,6 +1715,20 @@ export class KookClient extends KookEventEmitter {
     this.eventManager.onMessageBtnClick(handler);
   }
 
+  /**
+   * Register handler for the bot joining a guild
+   */
+  onSelfJoinedGuild(handler: SelfJoinedGuildHandler): void {
+    this.eventManager.onSelfJoinedGuild(handler);
+  }
+
+  /**
+   * Register handler for the bot leaving a guild
+   */
+  onSelfExitedGuild(handler: SelfExitedGuildHandler): void {
+    this.eventManager.onSelfExitedGuild(handler);
+  }
+
   /**
    * Register handler for reaction added events
    */
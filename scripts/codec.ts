@@ -0,0 +1,36 @@
+/**
+ * Decode a URL-safe base64 string into UTF-8 text
+ */
+export function base64UrlDecode(str: string): string {
+  // Add padding if needed
+  const padding = '='.repeat((4 - (str.length % 4)) % 4);
+  const base64 = str.replace(/-/g, '+').replace(/_/g, '/') + padding;
+
+  // Decode base64 and then decode UTF-8
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Decode a URL-safe base64 string and gunzip it into UTF-8 text
+ */
+export function decodeAndDecompress(base64: string): string {
+  // Add padding if needed
+  const padding = '='.repeat((4 - (base64.length % 4)) % 4);
+  const normalizedBase64 = base64.replace(/-/g, '+').replace(/_/g, '/') + padding;
+
+  // Decode base64 to compressed bytes
+  const binaryString = atob(normalizedBase64);
+  const compressedBytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    compressedBytes[i] = binaryString.charCodeAt(i);
+  }
+
+  // Decompress and decode UTF-8
+  const decompressed = Bun.gunzipSync(compressedBytes);
+  return new TextDecoder().decode(decompressed);
+}
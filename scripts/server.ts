@@ -3,37 +3,7 @@ import { ScriptDatabase } from './database';
 import { validateAndSeparateScript, type ScriptInput } from './validator';
 import { createStaticFileHandler } from './fileServer';
 import { stat } from 'fs/promises';
-
-function base64UrlDecode(str: string): string {
-  // Add padding if needed
-  const padding = '='.repeat((4 - (str.length % 4)) % 4);
-  const base64 = str.replace(/-/g, '+').replace(/_/g, '/') + padding;
-
-  // Decode base64 and then decode UTF-8
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return new TextDecoder().decode(bytes);
-}
-
-function decodeAndDecompress(base64: string): string {
-  // Add padding if needed
-  const padding = '='.repeat((4 - (base64.length % 4)) % 4);
-  const normalizedBase64 = base64.replace(/-/g, '+').replace(/_/g, '/') + padding;
-
-  // Decode base64 to compressed bytes
-  const binaryString = atob(normalizedBase64);
-  const compressedBytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    compressedBytes[i] = binaryString.charCodeAt(i);
-  }
-
-  // Decompress and decode UTF-8
-  const decompressed = Bun.gunzipSync(compressedBytes);
-  return new TextDecoder().decode(decompressed);
-}
+import { base64UrlDecode, decodeAndDecompress } from './codec';
 
 // Initialize database
 const db = new ScriptDatabase();
@@ -299,6 +269,23 @@ const server = Bun.serve({
       return faviconHandler(modifiedRequest);
     },
 
+    // API endpoint for retrieving stored scripts as JSON
+    '/api/script/:metadataId/:rolesId': async (req) => {
+      const { metadataId, rolesId } = req.params;
+
+      const scriptRecord = db.getScript(metadataId, rolesId);
+      if (!scriptRecord) {
+        return new Response(JSON.stringify({ error: '指定的剧本不存在或已被删除' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify({ ...scriptRecord.metadata, ...scriptRecord.roles }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    },
+
     // Short URL script viewer - retrieve from database
     '/s/:metadataId/:rolesId': async (req) => {
       const { metadataId, rolesId } = req.params;
@@ -14,6 +14,10 @@ export interface CustomRole {
   team: 'townsfolk' | 'outsider' | 'minion' | 'demon' | 'traveler' | 'traveller' | 'fabled';
   ability: string;
   image?: string;
+  firstNight?: number;
+  firstNightReminder?: string;
+  otherNight?: number;
+  otherNightReminder?: string;
 }
 
 // Role input can be a string ID, an object with ID, or a custom role
@@ -147,6 +151,16 @@ function validateInputTypes(scriptData: any): void {
       if (role.image !== undefined && typeof role.image !== 'string') {
         throw new Error(`自定义角色[${i}]的image必须是字符串类型`);
       }
+      for (const key of ['firstNight', 'otherNight'] as const) {
+        if (role[key] !== undefined && typeof role[key] !== 'number') {
+          throw new Error(`自定义角色[${i}]的${key}必须是数字类型`);
+        }
+      }
+      for (const key of ['firstNightReminder', 'otherNightReminder'] as const) {
+        if (role[key] !== undefined && typeof role[key] !== 'string') {
+          throw new Error(`自定义角色[${i}]的${key}必须是字符串类型`);
+        }
+      }
     }
   }
 }
@@ -194,6 +208,10 @@ export function validateAndSeparateScript(scriptData: ScriptInput): ValidatedScr
         team: normalizedRole.team,
         ability: normalizedRole.ability,
         image: normalizedRole.image || 'none', // Store 'none' if no image provided
+        firstNight: normalizedRole.firstNight ?? 0,
+        firstNightReminder: normalizedRole.firstNightReminder ?? '',
+        otherNight: normalizedRole.otherNight ?? 0,
+        otherNightReminder: normalizedRole.otherNightReminder ?? '',
       };
       // Normalize traveller team
       if (customRole.team === 'traveler') {
@@ -320,6 +338,10 @@ export function validateRoles(roles: ScriptRoles): Role[] {
         team: normalizedRole.team,
         ability: normalizedRole.ability,
         image: normalizedRole.image || 'none', // Store 'none' if no image provided
+        firstNight: normalizedRole.firstNight ?? 0,
+        firstNightReminder: normalizedRole.firstNightReminder ?? '',
+        otherNight: normalizedRole.otherNight ?? 0,
+        otherNightReminder: normalizedRole.otherNightReminder ?? '',
       };
       resolvedRoles.push(customRole);
     } else {
@@ -0,0 +1,44 @@
+/**
+ * 会话故障提示卡片，发送到说书人频道
+ */
+export const brokenCard = (errors: number) => [
+  {
+    type: 'card',
+    theme: 'danger',
+    size: 'lg',
+    modules: [
+      {
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content: `**(font)小镇发生故障(font)[danger]**\n最近发生了 ${errors} 次错误，小镇已暂停响应操作，其他小镇不受影响\n(font)可以尝试继续游戏，如果仍然出错请拆除小镇后重新创建(font)[tips]`,
+        },
+      },
+      {
+        type: 'action-group',
+        elements: [
+          {
+            type: 'button',
+            theme: 'primary',
+            text: {
+              type: 'plain-text',
+              content: '继续游戏',
+            },
+            click: 'return-val',
+            value: '[rt]BrokenResume',
+          },
+          {
+            type: 'button',
+            theme: 'danger',
+            text: {
+              type: 'plain-text',
+              content: '拆除小镇',
+            },
+            click: 'return-val',
+            value: '[rt]BrokenDelete',
+          },
+        ],
+      },
+    ],
+  },
+];
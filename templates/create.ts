@@ -42,6 +42,43 @@ export const createActionCard = [
   },
 ];
 
+/**
+ * 维护期间的创建小镇卡片，按钮不可点击
+ * @param deadline 计划维护的时间，为 0 时不显示倒计时
+ */
+export const drainingActionCard = (deadline: number) => [
+  {
+    type: 'card',
+    theme: 'secondary',
+    modules: [
+      {
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content: '(font)机器人即将进行维护，暂时不能创建新的小镇(font)[warning]',
+        },
+      },
+      ...(deadline > 0
+        ? [
+            {
+              type: 'countdown',
+              mode: 'hour',
+              endTime: deadline,
+            },
+          ]
+        : []),
+      {
+        type: 'action-group',
+        elements: createButtons.elements.map((button) => ({
+          type: 'button',
+          theme: 'secondary',
+          text: button.text,
+        })),
+      },
+    ],
+  },
+];
+
 export const creatingInfo = [
   {
     type: 'card',
@@ -57,6 +94,38 @@ export const creatingInfo = [
   },
 ];
 
+export const createFailedInfo = [
+  {
+    type: 'card',
+    theme: 'danger',
+    modules: [
+      {
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content: '小镇创建失败，请稍后再试',
+        },
+      },
+    ],
+  },
+];
+
+export const drainingInfo = [
+  {
+    type: 'card',
+    theme: 'warning',
+    modules: [
+      {
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content: '机器人即将进行维护，暂时不能创建新的小镇，请稍后再试',
+        },
+      },
+    ],
+  },
+];
+
 export const createdCard = (name: string, channelId: string) => [
   {
     type: 'card',
@@ -0,0 +1,80 @@
+import type { SessionScript } from '../game/utils/script';
+import { TEAM_NAMES } from '../game/utils/characters';
+
+const TEAM_COLORS: Record<string, string> = {
+  townsfolk: 'info',
+  outsider: 'primary',
+  minion: 'danger',
+  demon: 'danger',
+  traveller: 'warning',
+  fabled: 'purple',
+};
+
+const escapeKMarkdown = (text: string) => text.replace(/([\\*~`()[\]>-])/g, '\\$1');
+
+/**
+ * 剧本角色表卡片
+ */
+export const scriptCard = (script: SessionScript) => {
+  const { metadata } = script;
+
+  const info = [`**剧本：${escapeKMarkdown(metadata.name)}**`];
+  if (metadata.author) {
+    info.push(`(font)作者：${escapeKMarkdown(metadata.author)}(font)[secondary]`);
+  }
+  if (metadata.min_player !== undefined && metadata.max_player !== undefined) {
+    info.push(`(font)人数：${metadata.min_player} - ${metadata.max_player} 人(font)[secondary]`);
+  }
+
+  const header: any = {
+    type: 'section',
+    text: {
+      type: 'kmarkdown',
+      content: info.join('\n'),
+    },
+  };
+
+  if (script.url) {
+    header.mode = 'right';
+    header.accessory = {
+      type: 'button',
+      theme: 'info',
+      text: {
+        type: 'plain-text',
+        content: '查看剧本',
+      },
+      click: 'link',
+      value: script.url,
+    };
+  }
+
+  const modules: any[] = [header];
+
+  for (const team of Object.keys(TEAM_NAMES)) {
+    const roles = script.resolvedRoles.filter((role) => role.team === team);
+    if (roles.length === 0) continue;
+
+    modules.push({ type: 'divider' });
+    modules.push({
+      type: 'section',
+      text: {
+        type: 'kmarkdown',
+        content: [
+          `**(font)${TEAM_NAMES[team]}(font)[${TEAM_COLORS[team]}]**`,
+          ...roles.map(
+            (role) => `**${escapeKMarkdown(role.name)}**：${escapeKMarkdown(role.ability)}`,
+          ),
+        ].join('\n'),
+      },
+    });
+  }
+
+  return [
+    {
+      type: 'card',
+      theme: 'secondary',
+      size: 'lg',
+      modules,
+    },
+  ];
+};
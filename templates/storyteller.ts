@@ -13,6 +13,12 @@ export interface StorytellerTemplateParams {
   /** 按钮分组 */
   groups?: ActionGroup[];
 
+  /** 阶段倒计时 */
+  countdown?: {
+    start: number;
+    end: number;
+  };
+
   /** 底部信息 */
   footer?: string;
 }
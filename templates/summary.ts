@@ -0,0 +1,127 @@
+import { CIRCLED_NUMBERS } from '../game/consts';
+import { HistoryType, type HistoryEvent } from '../game/history';
+import { Alignment, PlayerStatus, type PlayerState } from '../game/session';
+
+/** 单个区块的最大长度，超出的部分会被截断 */
+const MAX_SECTION_LENGTH = 4000;
+
+const truncate = (text: string) =>
+  text.length > MAX_SECTION_LENGTH ? text.slice(0, MAX_SECTION_LENGTH) + '\n……' : text;
+
+const describe = (event: HistoryEvent): string | null => {
+  switch (event.type) {
+    case HistoryType.VOTE:
+      if (event.from && event.to && event.exile) {
+        return `🚪 (met)${event.from}(met) 提议放逐 (met)${event.to}(met)：${event.votes} 票${event.required !== undefined ? ` / 需要 ${event.required} 票` : ''}`;
+      }
+      if (event.from && event.to) {
+        return `⚖️ (met)${event.from}(met) 提名 (met)${event.to}(met)：${event.votes} 票${event.required !== undefined ? ` / 需要 ${event.required} 票` : ''}`;
+      }
+      return `🗳️ 说书人发起投票：${event.votes} 票`;
+    case HistoryType.EXECUTION:
+      return `🪓 (met)${event.player}(met) 被处决`;
+    case HistoryType.WHISPER:
+      return `🤫 (met)${event.from}(met) 与 (met)${event.to}(met) 私聊`;
+    case HistoryType.STATUS:
+      switch (event.status) {
+        case PlayerStatus.DEAD:
+          return `💀 (met)${event.player}(met) 死亡`;
+        case PlayerStatus.ALIVE:
+          return `✨ (met)${event.player}(met) 复活`;
+        default:
+          return null;
+      }
+    default:
+      return null;
+  }
+};
+
+/**
+ * 游戏结束总结卡片
+ */
+export const summaryCard = (
+  winner: 'good' | 'bad',
+  events: readonly HistoryEvent[],
+  players: readonly PlayerState[],
+) => {
+  const modules: any[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'kmarkdown',
+        content: `**游戏总结** - ${winner === 'good' ? '(font)善良阵营胜利(font)[info]' : '(font)邪恶阵营胜利(font)[danger]'}`,
+      },
+    },
+    {
+      type: 'divider',
+    },
+  ];
+
+  // 魔典中记录的最终角色
+  if (players.some((p) => p.character)) {
+    modules.push({
+      type: 'section',
+      text: {
+        type: 'kmarkdown',
+        content: truncate(
+          players
+            .map((p, index) => {
+              const slot = CIRCLED_NUMBERS[index + 1] || '⓪';
+              const character = p.character
+                ? `(font)${p.character.name}(font)[${p.alignment === Alignment.EVIL ? 'danger' : 'info'}]`
+                : '(font)未知(font)[tips]';
+              const dead = p.status === PlayerStatus.ALIVE ? '' : ' 💀';
+              return `${slot} (met)${p.id}(met) ${character}${dead}`;
+            })
+            .join('\n'),
+        ),
+      },
+    });
+    modules.push({ type: 'divider' });
+  }
+
+  // 按天整理事件，夜晚在前
+  const days: { title: string; lines: string[] }[] = [];
+  for (const event of events) {
+    const line = describe(event);
+    if (!line) continue;
+
+    const title = event.night ? `第 ${event.day} 个夜晚` : `第 ${event.day} 天`;
+    let day = days[days.length - 1];
+    if (!day || day.title !== title) {
+      day = { title, lines: [] };
+      days.push(day);
+    }
+    day.lines.push(line);
+  }
+
+  if (days.length === 0) {
+    modules.push({
+      type: 'section',
+      text: {
+        type: 'kmarkdown',
+        content: '(font)这局游戏没有留下任何记录(font)[tips]',
+      },
+    });
+  }
+
+  // 卡片最多只能有 50 个模块
+  for (const day of days.slice(-40)) {
+    modules.push({
+      type: 'section',
+      text: {
+        type: 'kmarkdown',
+        content: truncate(`**${day.title}**\n${day.lines.join('\n')}`),
+      },
+    });
+  }
+
+  return [
+    {
+      type: 'card',
+      theme: winner === 'good' ? 'info' : 'danger',
+      size: 'lg',
+      modules,
+    },
+  ];
+};
@@ -17,6 +17,18 @@ export interface TownsquareTemplateParams {
   /** 按钮列表 */
   buttons?: ButtonList;
 
+  /** 阶段倒计时 */
+  countdown?: {
+    start: number;
+    end: number;
+  };
+
+  /** 维护倒计时 */
+  maintenance?: {
+    text: string;
+    end: number;
+  };
+
   /** 底部信息 */
   footer?: string;
 }
@@ -0,0 +1,41 @@
+/**
+ * 私聊对象选择卡片，只发送给发起私聊的玩家
+ */
+export const whisperTargetCard = (players: { id: string; slot: string }[]) => [
+  {
+    type: 'card',
+    theme: 'warning',
+    size: 'lg',
+    modules: [
+      {
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content:
+            '**(font)私聊(font)[warning]**\n选择想要私聊的玩家，说书人同意后你们会被移动到临时的私聊频道\n(font)其他玩家会知道你们进行了私聊(font)[tips]',
+        },
+      },
+      {
+        type: 'divider',
+      },
+      ...players.map((player) => ({
+        type: 'section',
+        text: {
+          type: 'kmarkdown',
+          content: `${player.slot} (met)${player.id}(met)`,
+        },
+        mode: 'right',
+        accessory: {
+          type: 'button',
+          theme: 'warning',
+          text: {
+            type: 'plain-text',
+            content: '私聊',
+          },
+          click: 'return-val',
+          value: `[pl]WhisperTarget|${player.id}`,
+        },
+      })),
+    ],
+  },
+];
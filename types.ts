@@ -1,8 +1,5 @@
 export interface GameConfig {
-  guildId: string;
-  roomCategoryId: string;
-  gameCategoryId: string;
-  cottageCategoryId: string;
+  /** 消息模版属于机器人，所有服务器共用 */
   templates: {
     storyteller: string;
     townsquare: string;
@@ -10,3 +7,17 @@ export interface GameConfig {
   };
   assets: Record<string, string>;
 }
+
+/** 服务器配置，每个服务器都有自己的频道分组 */
+export interface GuildConfig {
+  guildId: string;
+  roomCategoryId: string;
+  gameCategoryId: string;
+  cottageCategoryId: string;
+
+  /** 可以使用管理指令的用户 */
+  admins: string[];
+
+  /** 拥有该身份组的用户也可以使用管理指令 */
+  adminRoleId: number;
+}